@@ -0,0 +1,82 @@
+'use client';
+import { useState } from 'react';
+import type { GroupSharedTag, GroupingMode } from '@/lib/grouping';
+import type { ParticipantSummary } from '@/lib/matches';
+import { authFetch } from '@/lib/authFetch';
+
+interface Group {
+  members: ParticipantSummary[];
+  sharedTags: GroupSharedTag[];
+}
+
+/**
+ * Split a session's visible participants into k discussion groups via
+ * `/api/session/groups`, either of similar people or deliberately
+ * diverse ones, and list each group with the tags its members share.
+ */
+export default function AffinityGroups({ sessionId }: { sessionId: string }) {
+  const [k, setK] = useState(3);
+  const [mode, setMode] = useState<GroupingMode>('similar');
+  const [groups, setGroups] = useState<Group[] | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const generate = async () => {
+    setStatus('Grouping...');
+    const params = new URLSearchParams({ sessionId, k: String(k), mode });
+    const res = await authFetch(`/api/session/groups?${params.toString()}`);
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body) {
+      setStatus(body?.details?.join(' ') ?? body?.error ?? 'Failed to make groups');
+      return;
+    }
+    setGroups(body.groups);
+    setStatus(null);
+  };
+
+  return (
+    <div style={{ marginTop: '0.5rem', padding: '0.5rem', backgroundColor: '#f9fafb', borderRadius: '0.25rem', fontSize: '0.875rem' }}>
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '0.5rem' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+          Groups
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={k}
+            onChange={(e) => setK(Number(e.target.value))}
+            style={{ width: '4rem', border: '1px solid #d1d5db', borderRadius: '0.25rem', padding: '0.125rem 0.25rem' }}
+          />
+        </label>
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as GroupingMode)}
+          style={{ border: '1px solid #d1d5db', borderRadius: '0.25rem', padding: '0.125rem 0.25rem' }}
+        >
+          <option value="similar">Similar people together</option>
+          <option value="diverse">Mix different people</option>
+        </select>
+        <button
+          onClick={generate}
+          style={{ backgroundColor: '#2563eb', color: 'white', padding: '0.25rem 0.75rem', borderRadius: '0.25rem' }}
+        >
+          Make groups
+        </button>
+      </div>
+      {status && <p style={{ margin: 0, fontSize: '0.75rem', color: '#6b7280' }}>{status}</p>}
+      {groups && (
+        <ol style={{ margin: 0, paddingLeft: '1.25rem' }}>
+          {groups.map((group, index) => (
+            <li key={index} style={{ marginBottom: '0.375rem' }}>
+              <span>{group.members.map((m) => m.display_name).join(', ')}</span>
+              {group.sharedTags.length > 0 && (
+                <p style={{ margin: 0, fontSize: '0.75rem', color: '#6b7280' }}>
+                  Shared: {group.sharedTags.map((t) => (t.members > 2 ? `${t.tag} (${t.members})` : t.tag)).join(', ')}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+import { useState } from 'react';
+import { EXPORT_TABLES, ExportTable } from '@/lib/sessionExport';
+import { authFetch } from '@/lib/authFetch';
+
+/**
+ * Download a session's results from `/api/session/export` as JSON or
+ * as one CSV table, or open the printable report. Optionally includes
+ * affinity groups made at export time.
+ */
+export default function ExportPanel({ sessionId }: { sessionId: string }) {
+  // Number of affinity groups to include; empty for none
+  const [groups, setGroups] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+
+  const query = (extra: Record<string, string>) =>
+    new URLSearchParams({ sessionId, ...(groups ? { groups } : {}), ...extra }).toString();
+
+  // The route needs the auth header, so fetch the file and save it from a blob URL
+  const download = async (format: 'json' | 'csv', table?: ExportTable) => {
+    setStatus('Preparing export...');
+    const res = await authFetch(`/api/session/export?${query(table ? { format, table } : { format })}`);
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      setStatus(body?.details?.join(' ') ?? body?.error ?? 'Export failed');
+      return;
+    }
+    const filename = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') ?? '')?.[1] ?? `export.${format}`;
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    setStatus(null);
+  };
+
+  const buttonStyle = { border: '1px solid #d1d5db', padding: '0.125rem 0.5rem', borderRadius: '0.25rem' };
+  return (
+    <div style={{ marginTop: '0.5rem', padding: '0.5rem', backgroundColor: '#f9fafb', borderRadius: '0.25rem', fontSize: '0.875rem' }}>
+      <p style={{ margin: '0 0 0.5rem', fontSize: '0.75rem', color: '#6b7280' }}>
+        Exports include only participants who consented. Hidden participants appear as “Participant N”.
+      </p>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'center' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+          Include groups
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={groups}
+            onChange={(e) => setGroups(e.target.value)}
+            placeholder="none"
+            style={{ width: '4rem', border: '1px solid #d1d5db', borderRadius: '0.25rem', padding: '0.125rem 0.25rem' }}
+          />
+        </label>
+        <button onClick={() => download('json')} style={buttonStyle}>
+          JSON
+        </button>
+        {EXPORT_TABLES.filter((table) => table !== 'groups' || groups).map((table) => (
+          <button key={table} onClick={() => download('csv', table)} style={buttonStyle}>
+            CSV: {table}
+          </button>
+        ))}
+        <a href={`/admin/report?${query({})}`} target="_blank" rel="noreferrer" style={{ color: '#2563eb' }}>
+          Printable report
+        </a>
+      </div>
+      {status && <p style={{ margin: '0.5rem 0 0', fontSize: '0.75rem', color: '#6b7280' }}>{status}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+import { useState } from 'react';
+import { signInFacilitator } from '@/lib/authFetch';
+import { supabaseConfigured } from '@/lib/supabaseClient';
+
+/**
+ * Email sign-in for facilitators. Sends a magic link that returns to
+ * the admin page, or signs in at once without Supabase (see
+ * `lib/authFetch.ts`); sessions are managed by the email they were
+ * created with.
+ */
+export default function FacilitatorSignIn() {
+  const [email, setEmail] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+
+  const sendLink = async () => {
+    if (!email.trim()) return;
+    setStatus('Sending...');
+    try {
+      setStatus(await signInFacilitator(email.trim()));
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to sign in');
+    }
+  };
+
+  return (
+    <section style={{ marginBottom: '2rem' }}>
+      <h2 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: '0.5rem' }}>Facilitator sign-in</h2>
+      <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem' }}>
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="you@example.com"
+          style={{ flex: 1, border: '1px solid #d1d5db', borderRadius: '0.25rem', padding: '0.5rem' }}
+        />
+        <button
+          onClick={sendLink}
+          style={{ backgroundColor: '#2563eb', color: 'white', padding: '0.5rem 1rem', borderRadius: '0.25rem' }}
+        >
+          {supabaseConfigured ? 'Send link' : 'Sign in'}
+        </button>
+      </div>
+      {status && <p style={{ color: '#6b7280', fontSize: '0.875rem' }}>{status}</p>}
+    </section>
+  );
+}
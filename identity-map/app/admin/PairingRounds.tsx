@@ -0,0 +1,81 @@
+'use client';
+import { useEffect, useState } from 'react';
+import type { PairingMode } from '@/lib/pairing';
+import type { ParticipantSummary } from '@/lib/matches';
+import { authFetch } from '@/lib/authFetch';
+
+interface Round {
+  id: string;
+  round_number: number;
+  mode: PairingMode;
+  groups: ParticipantSummary[][];
+}
+
+/**
+ * Run 1:1 conversation rounds for a session via `/api/session/rounds`.
+ * Each new round pairs visible participants by similarity without
+ * repeating earlier pairs; participants see their partner on `/map`.
+ */
+export default function PairingRounds({ sessionId }: { sessionId: string }) {
+  const [rounds, setRounds] = useState<Round[]>([]);
+  const [mode, setMode] = useState<PairingMode>('different');
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    authFetch(`/api/session/rounds?sessionId=${encodeURIComponent(sessionId)}`)
+      .then((res) => res.json())
+      .then((body) => setRounds(body.rounds ?? []))
+      .catch(() => setStatus('Failed to load rounds'));
+  }, [sessionId]);
+
+  const startRound = async () => {
+    setStatus('Pairing...');
+    const res = await authFetch('/api/session/rounds', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, mode }),
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body) {
+      setStatus(body?.details?.join(' ') ?? body?.error ?? 'Failed to start round');
+      return;
+    }
+    setRounds([...rounds, body.round]);
+    setStatus(null);
+  };
+
+  const latest = rounds[rounds.length - 1];
+  return (
+    <div style={{ marginTop: '0.5rem', padding: '0.5rem', backgroundColor: '#f9fafb', borderRadius: '0.25rem', fontSize: '0.875rem' }}>
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '0.5rem' }}>
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as PairingMode)}
+          style={{ border: '1px solid #d1d5db', borderRadius: '0.25rem', padding: '0.125rem 0.25rem' }}
+        >
+          <option value="different">Most different partner</option>
+          <option value="similar">Most similar partner</option>
+        </select>
+        <button
+          onClick={startRound}
+          style={{ backgroundColor: '#2563eb', color: 'white', padding: '0.25rem 0.75rem', borderRadius: '0.25rem' }}
+        >
+          Start round {(latest?.round_number ?? 0) + 1}
+        </button>
+      </div>
+      {status && <p style={{ margin: 0, fontSize: '0.75rem', color: '#6b7280' }}>{status}</p>}
+      {latest && (
+        <>
+          <p style={{ margin: '0 0 0.25rem', fontWeight: 500 }}>
+            Round {latest.round_number} ({latest.mode === 'different' ? 'most different' : 'most similar'})
+          </p>
+          <ul style={{ margin: 0, paddingLeft: '1.25rem' }}>
+            {latest.groups.map((group, index) => (
+              <li key={index}>{group.map((p) => p.display_name).join(' & ')}</li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+import { useEffect, useState } from 'react';
+import type { SessionAnalytics } from '@/lib/analytics';
+import { LENSES } from '@/lib/identity';
+import { authFetch } from '@/lib/authFetch';
+
+/**
+ * Aggregate dashboard for a session from `/api/session/analytics`:
+ * how many people are visible, how far they got with each lens, the
+ * tags many people share, and how similar pairs are overall. Rare tags
+ * are only counted, never shown.
+ */
+export default function SessionDashboard({ sessionId }: { sessionId: string }) {
+  const [analytics, setAnalytics] = useState<SessionAnalytics | null>(null);
+  const [status, setStatus] = useState<string | null>('Loading...');
+
+  const load = async () => {
+    setStatus('Loading...');
+    const res = await authFetch(`/api/session/analytics?sessionId=${encodeURIComponent(sessionId)}`);
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body) {
+      setStatus(body?.error ?? 'Failed to load dashboard');
+      return;
+    }
+    setAnalytics(body.analytics);
+    setStatus(null);
+  };
+
+  useEffect(() => {
+    load();
+  }, [sessionId]);
+
+  const maxBin = analytics ? Math.max(1, ...analytics.scores.bins.map((b) => b.count)) : 1;
+  return (
+    <div style={{ marginTop: '0.5rem', padding: '0.5rem', backgroundColor: '#f9fafb', borderRadius: '0.25rem', fontSize: '0.875rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+        {analytics ? (
+          <span>
+            {analytics.participants.total} participants · {analytics.participants.visible} visible ·{' '}
+            {analytics.participants.hidden} hidden · {analytics.participants.withItems} with items
+          </span>
+        ) : (
+          <span />
+        )}
+        <button onClick={load} style={{ border: '1px solid #d1d5db', padding: '0.125rem 0.5rem', borderRadius: '0.25rem' }}>
+          Refresh
+        </button>
+      </div>
+      {status && <p style={{ margin: 0, fontSize: '0.75rem', color: '#6b7280' }}>{status}</p>}
+      {analytics && (
+        <>
+          {LENSES.map((lens) => {
+            const stats = analytics.lenses[lens];
+            return (
+              <div key={lens} style={{ marginBottom: '0.5rem' }}>
+                <p style={{ margin: 0, fontWeight: 500 }}>
+                  {lens.charAt(0) + lens.slice(1).toLowerCase()}: {stats.tags} tags, {stats.texts} texts from{' '}
+                  {stats.participants} people
+                </p>
+                <p style={{ margin: 0, fontSize: '0.75rem', color: '#6b7280' }}>
+                  {stats.topTags.length > 0
+                    ? stats.topTags.map((t) => `${t.tag} (${t.participants})`).join(', ')
+                    : `No tag shared by ${analytics.minGroupSize} or more people yet`}
+                  {stats.suppressedTags > 0 &&
+                    ` · ${stats.suppressedTags} tag${stats.suppressedTags === 1 ? '' : 's'} used by fewer than ${analytics.minGroupSize} people not shown`}
+                </p>
+              </div>
+            );
+          })}
+          <p style={{ margin: '0.5rem 0 0.25rem', fontWeight: 500 }}>
+            Overall similarity across {analytics.scores.pairs} pairs
+            {analytics.scores.mean !== null && ` (mean ${Math.round(analytics.scores.mean * 100)}%)`}
+          </p>
+          <div style={{ display: 'flex', alignItems: 'flex-end', gap: '2px', height: '4rem' }}>
+            {analytics.scores.bins.map((bin) => (
+              <div
+                key={bin.from}
+                title={`${Math.round(bin.from * 100)}–${Math.round(bin.to * 100)}%: ${bin.count} pairs`}
+                style={{ flex: 1, height: `${(bin.count / maxBin) * 100}%`, minHeight: '1px', backgroundColor: '#2563eb' }}
+              />
+            ))}
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.75rem', color: '#6b7280' }}>
+            <span>0%</span>
+            <span>100%</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+import { useEffect, useState } from 'react';
+import type { Lens, SimilarityConfig, TagTaxonomyNode, TextStrategyName } from '@/lib/similarity';
+import { authFetch } from '@/lib/authFetch';
+
+const LENS_LABELS: Record<Lens, string> = { GIVEN: 'Given', CHOSEN: 'Chosen', CORE: 'Core' };
+
+// Synonym groups are edited as one comma-separated group per line
+function formatSynonyms(groups: string[][]): string {
+  return groups.map((group) => group.join(', ')).join('\n');
+}
+
+// The taxonomy is edited as JSON; an empty box means no taxonomy
+function formatTaxonomy(nodes: TagTaxonomyNode[]): string {
+  return nodes.length > 0 ? JSON.stringify(nodes, null, 2) : '';
+}
+
+function parseSynonyms(text: string): string[][] {
+  return text
+    .split('\n')
+    .map((line) => line.split(',').map((tag) => tag.trim()).filter((tag) => tag.length > 0))
+    .filter((group) => group.length > 0);
+}
+
+/**
+ * Editor for a session's similarity config. Loads the current config
+ * from `/api/session/config` and saves changes back; saving clears the
+ * session's cached scores on the server.
+ */
+export default function SimilaritySettings({ sessionId }: { sessionId: string }) {
+  const [config, setConfig] = useState<SimilarityConfig | null>(null);
+  const [languages, setLanguages] = useState<{ code: string; name: string }[]>([]);
+  const [synonymText, setSynonymText] = useState('');
+  const [taxonomyText, setTaxonomyText] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    authFetch(`/api/session/config?sessionId=${encodeURIComponent(sessionId)}`)
+      .then((res) => res.json())
+      .then((body) => {
+        setConfig(body.config ?? null);
+        setLanguages(body.languages ?? []);
+        setSynonymText(formatSynonyms(body.config?.tagSynonyms ?? []));
+        setTaxonomyText(formatTaxonomy(body.config?.tagTaxonomy ?? []));
+      })
+      .catch(() => setStatus('Failed to load settings'));
+  }, [sessionId]);
+
+  const save = async () => {
+    if (!config) return;
+    let tagTaxonomy: unknown = [];
+    try {
+      if (taxonomyText.trim()) tagTaxonomy = JSON.parse(taxonomyText);
+    } catch {
+      setStatus('Tag taxonomy is not valid JSON');
+      return;
+    }
+    setStatus('Saving...');
+    const res = await authFetch('/api/session/config', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, config: { ...config, tagSynonyms: parseSynonyms(synonymText), tagTaxonomy } }),
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body) {
+      setStatus(body?.details?.join(' ') ?? body?.error ?? 'Failed to save settings');
+      return;
+    }
+    setConfig(body.config);
+    setSynonymText(formatSynonyms(body.config.tagSynonyms));
+    setTaxonomyText(formatTaxonomy(body.config.tagTaxonomy));
+    setStatus('Saved');
+  };
+
+  if (!config) {
+    return <p style={{ fontSize: '0.75rem', color: '#6b7280' }}>{status ?? 'Loading settings...'}</p>;
+  }
+  return (
+    <div style={{ marginTop: '0.5rem', padding: '0.5rem', backgroundColor: '#f9fafb', borderRadius: '0.25rem', fontSize: '0.875rem' }}>
+      <p style={{ margin: '0 0 0.25rem', fontWeight: 500 }}>Lens weights (0 ignores a lens)</p>
+      <div style={{ display: 'flex', gap: '0.75rem', marginBottom: '0.5rem' }}>
+        {(Object.keys(LENS_LABELS) as Lens[]).map((lens) => (
+          <label key={lens} style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+            {LENS_LABELS[lens]}
+            <input
+              type="number"
+              min={0}
+              max={5}
+              step={0.1}
+              value={config.lensWeights[lens]}
+              onChange={(e) =>
+                setConfig({ ...config, lensWeights: { ...config.lensWeights, [lens]: Number(e.target.value) } })
+              }
+              style={{ width: '4rem', border: '1px solid #d1d5db', borderRadius: '0.25rem', padding: '0.125rem 0.25rem' }}
+            />
+          </label>
+        ))}
+      </div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+        Tags {Math.round(config.tagBlend * 100)}% / Text {Math.round((1 - config.tagBlend) * 100)}%
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={Math.round(config.tagBlend * 100)}
+          onChange={(e) => setConfig({ ...config, tagBlend: Number(e.target.value) / 100 })}
+        />
+      </label>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+        Text comparison
+        <select
+          value={config.textStrategy}
+          onChange={(e) => setConfig({ ...config, textStrategy: e.target.value as TextStrategyName })}
+          style={{ border: '1px solid #d1d5db', borderRadius: '0.25rem', padding: '0.125rem 0.25rem' }}
+        >
+          <option value="jaccard">Shared words (Jaccard)</option>
+          <option value="tfidf">Distinctive shared words (TF-IDF)</option>
+        </select>
+      </label>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+        Language
+        <select
+          value={config.language}
+          onChange={(e) => setConfig({ ...config, language: e.target.value })}
+          style={{ border: '1px solid #d1d5db', borderRadius: '0.25rem', padding: '0.125rem 0.25rem' }}
+        >
+          {languages.map(({ code, name }) => (
+            <option key={code} value={code}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+        <input
+          type="checkbox"
+          checked={config.tagRarity}
+          onChange={(e) => setConfig({ ...config, tagRarity: e.target.checked })}
+        />
+        Count rare shared tags for more than common ones
+      </label>
+      <label style={{ display: 'block', marginBottom: '0.5rem' }}>
+        Tag synonyms (one group per line, comma-separated)
+        <textarea
+          value={synonymText}
+          onChange={(e) => setSynonymText(e.target.value)}
+          rows={3}
+          placeholder="sea, ocean, coast"
+          style={{ display: 'block', width: '100%', border: '1px solid #d1d5db', borderRadius: '0.25rem', padding: '0.25rem' }}
+        />
+      </label>
+      <label style={{ display: 'block', marginBottom: '0.5rem' }}>
+        Tag taxonomy (JSON; related tags under a shared category get partial credit)
+        <textarea
+          value={taxonomyText}
+          onChange={(e) => setTaxonomyText(e.target.value)}
+          rows={4}
+          placeholder='[{ "tag": "Music", "children": [{ "tag": "Jazz" }, { "tag": "Rock" }] }]'
+          style={{
+            display: 'block',
+            width: '100%',
+            border: '1px solid #d1d5db',
+            borderRadius: '0.25rem',
+            padding: '0.25rem',
+            fontFamily: 'monospace',
+          }}
+        />
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) file.text().then(setTaxonomyText);
+          }}
+          style={{ marginTop: '0.25rem', fontSize: '0.75rem' }}
+        />
+      </label>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+        <button
+          onClick={save}
+          style={{ backgroundColor: '#2563eb', color: 'white', padding: '0.25rem 0.75rem', borderRadius: '0.25rem' }}
+        >
+          Save settings
+        </button>
+        {status && <span style={{ fontSize: '0.75rem', color: '#6b7280' }}>{status}</span>}
+      </div>
+    </div>
+  );
+}
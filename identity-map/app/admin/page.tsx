@@ -1,94 +1,174 @@
 "use client";
 import { useState, useEffect } from 'react';
-import { supabase } from '@/lib/supabaseClient';
-import { generateCode } from '@/lib/codeGenerator';
+import { authFetch, currentUser, onUserChange, signOut } from '@/lib/authFetch';
+import { subscribeToSession } from '@/lib/realtime';
+import { SESSION_STATE_LABELS, SessionState, nextStates } from '@/lib/sessionState';
+import SimilaritySettings from './SimilaritySettings';
+import AffinityGroups from './AffinityGroups';
+import PairingRounds from './PairingRounds';
+import SessionDashboard from './SessionDashboard';
+import ExportPanel from './ExportPanel';
+import FacilitatorSignIn from './FacilitatorSignIn';
+
+/**
+ * Button label for moving a session from one lifecycle state to another.
+ */
+function transitionLabel(from: SessionState, to: SessionState): string {
+  switch (to) {
+    case 'open':
+      return from === 'draft' ? 'Open for joining' : 'Reopen edits';
+    case 'locked':
+      return from === 'revealed' ? 'Hide matches' : 'Lock edits';
+    case 'revealed':
+      return 'Reveal matches';
+    case 'ended':
+      return 'End Session';
+    default:
+      return SESSION_STATE_LABELS[to];
+  }
+}
 
 /**
  * Session Admin page
  *
  * Allows a facilitator to create new sessions and manage existing
- * sessions. Creating a session generates a unique join code. For
- * each session, the admin can view the current participant count
- * and end the session (set an expiry) immediately. In a production
- * deployment, access to this page should be restricted via
- * authentication; here it is publicly accessible for demo purposes.
+ * sessions. Facilitators sign in by email and see only the sessions
+ * created with that email. Creating a session generates a unique join
+ * code. For each session, the admin can view the live participant
+ * count, move it through its lifecycle (open for joining, lock edits,
+ * reveal matches, end; see `lib/sessionState.ts`), open an anonymised
+ * dashboard of aggregate statistics, tune how
+ * similarity is computed for the session, split participants into
+ * affinity groups, run 1:1 conversation rounds, and export the results
+ * or open a printable report. All changes go
+ * through server routes that check the facilitator.
  */
 export default function AdminPage() {
+  // Email of the signed-in facilitator; null when signed out or anonymous
+  const [facilitatorEmail, setFacilitatorEmail] = useState<string | null>(null);
   const [title, setTitle] = useState('');
+  // Optional participant cap for the new session; empty means no cap
+  const [maxParticipants, setMaxParticipants] = useState('');
   const [sessions, setSessions] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
+  // Session whose similarity settings are currently expanded
+  const [settingsFor, setSettingsFor] = useState<string | null>(null);
+  // Session whose affinity groups panel is currently expanded
+  const [groupsFor, setGroupsFor] = useState<string | null>(null);
+  // Session whose conversation rounds panel is currently expanded
+  const [roundsFor, setRoundsFor] = useState<string | null>(null);
+  // Session whose analytics dashboard is currently expanded
+  const [dashboardFor, setDashboardFor] = useState<string | null>(null);
+  // Session whose export options are currently expanded
+  const [exportFor, setExportFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    currentUser().then((user) => setFacilitatorEmail(user?.email ?? null));
+    return onUserChange((user) => setFacilitatorEmail(user?.email ?? null));
+  }, []);
 
   /**
-   * Load existing sessions from Supabase. For each session, fetch
-   * the participant count separately. In a real app this could be
-   * optimized with a view or RPC.
+   * Load the facilitator's sessions with their participant counts.
    */
   const loadSessions = async () => {
-    const { data: sess, error } = await supabase
-      .from('sessions')
-      .select('id, code, title, expires_at, created_at')
-      .order('created_at', { ascending: false });
-    if (error || !sess) {
+    const res = await authFetch('/api/session');
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body) {
+      setMessage(body?.error ?? 'Failed to load sessions');
       return;
     }
-    // Fetch participant counts in parallel
-    const counts = await Promise.all(
-      sess.map(async (s: any) => {
-        const { count } = await supabase
-          .from('participant')
-          .select('*', { count: 'exact', head: true })
-          .eq('session_id', s.id);
-        return count ?? 0;
-      }),
-    );
-    const withCounts = sess.map((s: any, idx: number) => ({ ...s, participantCount: counts[idx] }));
-    setSessions(withCounts);
+    setSessions(body.sessions);
   };
 
   useEffect(() => {
-    loadSessions();
-  }, []);
+    if (facilitatorEmail) loadSessions();
+  }, [facilitatorEmail]);
+
+  // Keep participant counts live as people join or delete their data
+  useEffect(() => {
+    if (!facilitatorEmail) return;
+    return subscribeToSession(null, (change) => {
+      if (change.table !== 'participant' || change.event === 'UPDATE') return;
+      // Deletes do not say which session they were in, so counts are reloaded
+      if (change.event === 'DELETE') {
+        loadSessions();
+        return;
+      }
+      setSessions((prev) =>
+        prev.map((s) => (s.id === change.sessionId ? { ...s, participantCount: s.participantCount + 1 } : s)),
+      );
+    });
+  }, [facilitatorEmail]);
 
   /**
-   * Create a new session using the provided title. A 6–8 character
-   * code is generated via generateCode(). On success, refresh the
-   * list and display the join code.
+   * Create a new session using the provided title and optional
+   * participant cap. The server
+   * generates a 6–8 character join code. On success, refresh the list
+   * and display the join code.
    */
   const handleCreateSession = async () => {
     if (!title.trim()) return;
     setLoading(true);
-    const code = generateCode();
-    const { data, error } = await supabase
-      .from('sessions')
-      .insert({ code, title: title.trim() })
-      .select()
-      .single();
-    if (error || !data) {
-      setMessage(error?.message ?? 'Failed to create session');
+    const res = await authFetch('/api/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        title: title.trim(),
+        maxParticipants: maxParticipants ? Number(maxParticipants) : null,
+      }),
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body) {
+      setMessage(body?.details?.join(' ') ?? body?.error ?? 'Failed to create session');
       setLoading(false);
       return;
     }
-    setMessage(`Created session with code: ${data.code}`);
+    setMessage(`Created session with code: ${body.session.code}`);
     setTitle('');
+    setMaxParticipants('');
     await loadSessions();
     setLoading(false);
   };
 
   /**
-   * End a session immediately by setting its expires_at to now.
+   * Move a session to another lifecycle state. Ending a session also
+   * sets its expires_at to now.
    */
-  const endSession = async (id: string) => {
-    await supabase
-      .from('sessions')
-      .update({ expires_at: new Date().toISOString() })
-      .eq('id', id);
+  const changeState = async (id: string, state: SessionState) => {
+    const res = await authFetch('/api/session/state', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId: id, state }),
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      setMessage(body?.error ?? 'Failed to change session state');
+    }
     await loadSessions();
   };
 
+  if (!facilitatorEmail) {
+    return (
+      <main style={{ padding: '1.5rem', maxWidth: '40rem', margin: '0 auto' }}>
+        <h1 style={{ fontSize: '1.5rem', fontWeight: 'bold', marginBottom: '1rem' }}>Session Admin</h1>
+        <FacilitatorSignIn />
+      </main>
+    );
+  }
+
   return (
     <main style={{ padding: '1.5rem', maxWidth: '40rem', margin: '0 auto' }}>
       <h1 style={{ fontSize: '1.5rem', fontWeight: 'bold', marginBottom: '1rem' }}>Session Admin</h1>
+      <p style={{ color: '#6b7280', fontSize: '0.875rem', marginBottom: '1rem' }}>
+        Signed in as {facilitatorEmail}{' '}
+        <button
+          onClick={() => signOut()}
+          style={{ border: 'none', background: 'none', color: '#2563eb', cursor: 'pointer', fontSize: '0.875rem' }}
+        >
+          Sign out
+        </button>
+      </p>
       <section style={{ marginBottom: '2rem' }}>
         <h2 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: '0.5rem' }}>Create a new session</h2>
         <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem' }}>
@@ -99,6 +179,15 @@ export default function AdminPage() {
             placeholder="Session title"
             style={{ flex: 1, border: '1px solid #d1d5db', borderRadius: '0.25rem', padding: '0.5rem' }}
           />
+          <input
+            type="number"
+            min={1}
+            value={maxParticipants}
+            onChange={(e) => setMaxParticipants(e.target.value)}
+            placeholder="Max people"
+            aria-label="Maximum participants (optional)"
+            style={{ width: '7rem', border: '1px solid #d1d5db', borderRadius: '0.25rem', padding: '0.5rem' }}
+          />
           <button
             onClick={handleCreateSession}
             disabled={loading}
@@ -125,30 +214,94 @@ export default function AdminPage() {
                     <p style={{ margin: 0, fontWeight: 500 }}>{s.title}</p>
                     <p style={{ margin: 0, fontSize: '0.75rem', color: '#6b7280' }}>
                       Code: {s.code} · Participants: {s.participantCount}
+                      {s.max_participants ? ` / ${s.max_participants}` : ''}
+                    </p>
+                    <p style={{ margin: 0, fontSize: '0.75rem', color: s.state === 'ended' ? '#dc2626' : '#6b7280' }}>
+                      {SESSION_STATE_LABELS[s.state as SessionState]}
+                      {s.expires_at &&
+                        (s.state === 'ended'
+                          ? ` at ${new Date(s.expires_at).toLocaleString()}`
+                          : ` · expires ${new Date(s.expires_at).toLocaleString()}`)}
                     </p>
-                    {s.expires_at && (
-                      <p style={{ margin: 0, fontSize: '0.75rem', color: '#dc2626' }}>
-                        Ended at {new Date(s.expires_at).toLocaleString()}
-                      </p>
-                    )}
                   </div>
-                  <div>
-                    {!s.expires_at && (
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+                    <button
+                      onClick={() => setDashboardFor(dashboardFor === s.id ? null : s.id)}
+                      style={{
+                        border: '1px solid #d1d5db',
+                        padding: '0.25rem 0.75rem',
+                        borderRadius: '0.25rem',
+                        fontSize: '0.875rem',
+                      }}
+                    >
+                      Dashboard
+                    </button>
+                    <button
+                      onClick={() => setSettingsFor(settingsFor === s.id ? null : s.id)}
+                      style={{
+                        border: '1px solid #d1d5db',
+                        padding: '0.25rem 0.75rem',
+                        borderRadius: '0.25rem',
+                        fontSize: '0.875rem',
+                      }}
+                    >
+                      Settings
+                    </button>
+                    <button
+                      onClick={() => setGroupsFor(groupsFor === s.id ? null : s.id)}
+                      style={{
+                        border: '1px solid #d1d5db',
+                        padding: '0.25rem 0.75rem',
+                        borderRadius: '0.25rem',
+                        fontSize: '0.875rem',
+                      }}
+                    >
+                      Groups
+                    </button>
+                    <button
+                      onClick={() => setRoundsFor(roundsFor === s.id ? null : s.id)}
+                      style={{
+                        border: '1px solid #d1d5db',
+                        padding: '0.25rem 0.75rem',
+                        borderRadius: '0.25rem',
+                        fontSize: '0.875rem',
+                      }}
+                    >
+                      Rounds
+                    </button>
+                    <button
+                      onClick={() => setExportFor(exportFor === s.id ? null : s.id)}
+                      style={{
+                        border: '1px solid #d1d5db',
+                        padding: '0.25rem 0.75rem',
+                        borderRadius: '0.25rem',
+                        fontSize: '0.875rem',
+                      }}
+                    >
+                      Export
+                    </button>
+                    {nextStates(s.state).map((next) => (
                       <button
-                        onClick={() => endSession(s.id)}
+                        key={next}
+                        onClick={() => changeState(s.id, next)}
                         style={{
-                          backgroundColor: '#dc2626',
+                          backgroundColor: next === 'ended' ? '#dc2626' : '#2563eb',
                           color: 'white',
                           padding: '0.25rem 0.75rem',
                           borderRadius: '0.25rem',
                           fontSize: '0.875rem',
                         }}
                       >
-                        End Session
+                        {transitionLabel(s.state, next)}
                       </button>
-                    )}
+                    ))}
                   </div>
                 </div>
+                {dashboardFor === s.id && <SessionDashboard sessionId={s.id} />}
+                {settingsFor === s.id && <SimilaritySettings sessionId={s.id} />}
+                {groupsFor === s.id && <AffinityGroups sessionId={s.id} />}
+                {roundsFor === s.id && <PairingRounds sessionId={s.id} />}
+                {exportFor === s.id && <ExportPanel sessionId={s.id} />}
               </li>
             ))}
           </ul>
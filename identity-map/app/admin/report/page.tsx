@@ -0,0 +1,117 @@
+'use client';
+import { useEffect, useState } from 'react';
+import type { SessionExport } from '@/lib/sessionExport';
+import { LENSES } from '@/lib/identity';
+import { authFetch } from '@/lib/authFetch';
+
+const cell = { border: '1px solid #d1d5db', padding: '0.25rem 0.5rem', textAlign: 'left' as const };
+
+/**
+ * Printable session report
+ *
+ * Renders the JSON export of a session (see `/api/session/export`) as
+ * plain tables sized for paper: shared tags, the similarity matrix,
+ * conversation rounds and any affinity groups. Opened from the admin
+ * page with `?sessionId=...` (and optionally `groups=`); the facilitator
+ * must be signed in. The Print button is hidden when printing.
+ */
+export default function ReportPage() {
+  const [report, setReport] = useState<SessionExport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    params.set('format', 'json');
+    authFetch(`/api/session/export?${params.toString()}`)
+      .then(async (res) => {
+        const body = await res.json().catch(() => null);
+        if (!res.ok || !body) throw new Error(body?.details?.join(' ') ?? body?.error ?? 'Failed to load report');
+        setReport(body);
+      })
+      .catch((err) => setError(err.message));
+  }, []);
+
+  if (error) return <main style={{ padding: '1.5rem' }}>Error: {error}</main>;
+  if (!report) return <main style={{ padding: '1.5rem' }}>Loading...</main>;
+
+  const percent = (score: number | null) => (score === null ? '' : `${Math.round(score * 100)}%`);
+  return (
+    <main style={{ padding: '1.5rem', fontSize: '0.875rem', color: '#111827' }}>
+      <style>{'@media print { .no-print { display: none; } table { page-break-inside: auto; } }'}</style>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+        <h1 style={{ fontSize: '1.5rem', fontWeight: 'bold', margin: 0 }}>{report.session.title}</h1>
+        <button className="no-print" onClick={() => window.print()} style={{ border: '1px solid #d1d5db', padding: '0.25rem 0.75rem', borderRadius: '0.25rem' }}>
+          Print
+        </button>
+      </div>
+      <p style={{ color: '#6b7280' }}>
+        Code {report.session.code} · {report.session.state} · {report.participants.length} participants · exported{' '}
+        {new Date(report.session.exportedAt).toLocaleString()}
+      </p>
+
+      <h2 style={{ fontSize: '1.125rem', fontWeight: 600 }}>Shared tags</h2>
+      <p style={{ color: '#6b7280' }}>Tags used by at least {report.minGroupSize} participants.</p>
+      {LENSES.map((lens) => {
+        const tags = report.tags.filter((t) => t.lens === lens);
+        return (
+          <p key={lens}>
+            <strong>{lens.charAt(0) + lens.slice(1).toLowerCase()}:</strong>{' '}
+            {tags.length > 0 ? tags.map((t) => `${t.tag} (${t.participants})`).join(', ') : '—'}
+          </p>
+        );
+      })}
+
+      <h2 style={{ fontSize: '1.125rem', fontWeight: 600 }}>Overall similarity</h2>
+      {report.similarity.labels.length < 2 ? (
+        <p>Not enough participants.</p>
+      ) : (
+        <table style={{ borderCollapse: 'collapse', marginBottom: '1rem' }}>
+          <thead>
+            <tr>
+              <th style={cell} />
+              {report.similarity.labels.map((label) => (
+                <th key={label} style={cell}>
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {report.similarity.overall.map((row, i) => (
+              <tr key={report.similarity.labels[i]}>
+                <th style={cell}>{report.similarity.labels[i]}</th>
+                {row.map((score, j) => (
+                  <td key={j} style={cell}>
+                    {percent(score)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {report.rounds.length > 0 && (
+        <>
+          <h2 style={{ fontSize: '1.125rem', fontWeight: 600 }}>Conversation rounds</h2>
+          {report.rounds.map((round) => (
+            <p key={round.round}>
+              <strong>Round {round.round}</strong> ({round.mode}): {round.groups.map((g) => g.join(' & ')).join('; ')}
+            </p>
+          ))}
+        </>
+      )}
+
+      {report.groups && (
+        <>
+          <h2 style={{ fontSize: '1.125rem', fontWeight: 600 }}>Affinity groups ({report.groups.mode})</h2>
+          <ol>
+            {report.groups.members.map((group, i) => (
+              <li key={i}>{group.join(', ')}</li>
+            ))}
+          </ol>
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,32 @@
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { localAuthEnabled, signLocalUserToken } from '@/lib/localAuth';
+
+/**
+ * POST /api/auth/local
+ *
+ * Sign in without Supabase while the in-memory storage backend is
+ * selected (see `lib/localAuth.ts`). The optional JSON body contains
+ * `email` to sign in as that facilitator, unverified; without it a new
+ * anonymous user is created, as participants are when they join.
+ * Returns `{ accessToken, user: { id, email } }`. Answers 404 with the
+ * Supabase backend.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!localAuthEnabled()) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    const body = await request.json().catch(() => null);
+    const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : null;
+    if (email !== null && !/^[^\s@]+@[^\s@]+$/.test(email)) {
+      return NextResponse.json({ error: 'Invalid request', details: ['email must be an email address'] }, { status: 400 });
+    }
+    const user = { id: randomUUID(), email };
+    const accessToken = signLocalUserToken({ userId: user.id, email, iat: Math.floor(Date.now() / 1000) });
+    return NextResponse.json({ accessToken, user });
+  } catch (err) {
+    console.error('Error in POST /api/auth/local:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
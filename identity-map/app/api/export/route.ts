@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { matchesFromPairs } from '@/lib/matches';
+import { getPairResults } from '@/lib/similarityCache';
+import { matchesRevealed } from '@/lib/sessionState';
+import { authenticate, findTokenParticipant } from '@/lib/supabaseServer';
+import { getRepository } from '@/lib/repository';
+
+/**
+ * GET /api/export
+ *
+ * Download everything stored about the participant named by the
+ * request's participant token, as JSON: their participant settings,
+ * the session they joined, all of their identity items, and their
+ * similarity results (scores and explanations) against every visible
+ * peer. Similarity results are only included once the facilitator has
+ * revealed matches, as on `/map`; before that `matches` is null.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const self = await findTokenParticipant(request, auth);
+    if (!self) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+    const repository = getRepository(auth);
+
+    const participant = await repository.participants.get(self.id);
+    if (!participant) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+    const session = await repository.sessions.get(self.session_id);
+    const items = await repository.identityItems.list([self.id]);
+
+    let matches = null;
+    if (matchesRevealed(self.state)) {
+      const visible = await repository.participants.list(self.session_id, { visibleOnly: true });
+      const pairs = await getPairResults(self.session_id, self.id, visible.map((p) => p.id));
+      matches = matchesFromPairs(self.id, visible, pairs, 'overall').map((m) => ({
+        displayName: m.participant.display_name,
+        scores: m.scores,
+        explanations: m.explanations,
+      }));
+    }
+
+    return NextResponse.json(
+      {
+        exportedAt: new Date().toISOString(),
+        participant: {
+          id: participant.id,
+          display_name: participant.display_name,
+          is_visible: participant.is_visible,
+          consent_given: participant.consent_given,
+          created_at: participant.created_at,
+        },
+        session: session ? { title: session.title, code: session.code } : null,
+        sessionState: self.state,
+        identityItems: items.map(({ id, lens, type, label, value, weight, created_at }) => ({
+          id,
+          lens,
+          type,
+          label,
+          value,
+          weight,
+          created_at,
+        })),
+        matches,
+      },
+      { headers: { 'Content-Disposition': 'attachment; filename="my-identity-map-data.json"' } },
+    );
+  } catch (err) {
+    console.error('Error in GET /api/export:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
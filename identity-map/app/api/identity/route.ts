@@ -1,22 +1,126 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { LENSES, planIdentityBatch } from '@/lib/identity';
+import { Lens, canonicaliserFor } from '@/lib/similarity';
+import { canEditIdentity } from '@/lib/sessionState';
+import { recomputeParticipant } from '@/lib/similarityCache';
+import { loadSessionConfig } from '@/lib/similarityConfig';
+import { authenticate, findTokenParticipant } from '@/lib/supabaseServer';
+import { IdentityItemRecord, getRepository } from '@/lib/repository';
+
+// The item fields returned to the page
+function itemFields({ id, participant_id, lens, type, label, value, weight }: IdentityItemRecord) {
+  return { id, participant_id, lens, type, label, value, weight };
+}
+
+/**
+ * Refresh cached similarity pairs for the participant after a write.
+ * Cache writes need the service role. Failures are logged only:
+ * matches recompute missing pairs on read.
+ */
+async function refreshCache(sessionId: string, participantId: string) {
+  try {
+    await recomputeParticipant(sessionId, participantId);
+  } catch (err) {
+    console.error('Failed to recompute similarity cache:', err);
+  }
+}
 
 /**
  * POST /api/identity
  *
- * Placeholder for creating or updating identity items for a
- * participant. In later phases this will persist tags and text items
- * per lens along with their weights. For now it returns 501.
+ * Create or update a batch of identity items for the participant named
+ * by the request's participant token. The JSON body contains `items`,
+ * an array of `{ id?, lens, type, value, weight?, label? }`. Items with
+ * an `id` update that item; others are inserted. Weights must be
+ * integers 1–3, values respect per-type length limits and each lens is
+ * capped at a maximum number of items. Tags are deduplicated per lens
+ * the same way similarity scoring canonicalises them, including the
+ * session's synonym groups. The batch is rejected as a whole with a 400
+ * listing every problem if any item is invalid, and with a 403 once the
+ * session is no longer open for edits. Returns all of the participant's
+ * items after the write.
  */
-export async function POST(_request: NextRequest) {
-  return NextResponse.json({ error: 'Not implemented' }, { status: 501 });
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json({ error: 'Missing request body' }, { status: 400 });
+    }
+    const participant = await findTokenParticipant(request, auth);
+    if (!participant) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+    if (!canEditIdentity(participant.state)) {
+      return NextResponse.json({ error: 'Identity edits are closed for this session', state: participant.state }, { status: 403 });
+    }
+    const repository = getRepository(auth);
+    const existing = await repository.identityItems.list([participant.id]);
+
+    const config = await loadSessionConfig(participant.session_id, repository);
+    const plan = planIdentityBatch(participant.id, existing, body.items, canonicaliserFor(config));
+    if (plan.errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid identity items', details: plan.errors }, { status: 400 });
+    }
+    await repository.identityItems.insert(plan.inserts);
+    await repository.identityItems.update(plan.updates);
+    await refreshCache(participant.session_id, participant.id);
+
+    const items = await repository.identityItems.list([participant.id]);
+    return NextResponse.json({ items: items.map(itemFields) });
+  } catch (err) {
+    console.error('Error in POST /api/identity:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
 }
 
 /**
- * DELETE /api/identity
+ * DELETE /api/identity[?itemId=...|?lens=GIVEN]
  *
- * Placeholder for deleting a participant’s identity data. Later
- * phases will enforce RLS and cascade deletions. Returns 501.
+ * Delete identity items for the participant named by the request's
+ * participant token: a single item when `itemId` is given, every item
+ * in one lens when `lens` is given, or the participant's whole identity
+ * otherwise. The participant record itself is kept. Like POST, only
+ * allowed while the session is open. Returns the number of items
+ * deleted.
  */
-export async function DELETE(_request: NextRequest) {
-  return NextResponse.json({ error: 'Not implemented' }, { status: 501 });
-}
\ No newline at end of file
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const { searchParams } = new URL(request.url);
+    const itemId = searchParams.get('itemId');
+    const lens = searchParams.get('lens');
+    if (itemId && lens) {
+      return NextResponse.json({ error: 'Specify either itemId or lens, not both' }, { status: 400 });
+    }
+    if (lens && !LENSES.includes(lens as Lens)) {
+      return NextResponse.json({ error: 'Invalid lens' }, { status: 400 });
+    }
+    const participant = await findTokenParticipant(request, auth);
+    if (!participant) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+    if (!canEditIdentity(participant.state)) {
+      return NextResponse.json({ error: 'Identity edits are closed for this session', state: participant.state }, { status: 403 });
+    }
+
+    const count = await getRepository(auth).identityItems.delete(participant.id, {
+      id: itemId ?? undefined,
+      lens: lens ? (lens as Lens) : undefined,
+    });
+    if (itemId && count === 0) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+    await refreshCache(participant.session_id, participant.id);
+    return NextResponse.json({ deleted: count });
+  } catch (err) {
+    console.error('Error in DELETE /api/identity:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
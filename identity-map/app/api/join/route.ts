@@ -1,13 +1,121 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/supabaseServer';
+import { getRepository } from '@/lib/repository';
+import { hasValidChecksum, normalizeSessionCode, sessionCodeChecksumEnabled } from '@/lib/codeGenerator';
+import { signParticipantToken } from '@/lib/participantToken';
+import { checkRateLimit, clientIp } from '@/lib/rateLimit';
+import { canJoin, effectiveState } from '@/lib/sessionState';
+
+const MAX_DISPLAY_NAME_LENGTH = 40;
 
 /**
  * POST /api/join
  *
- * Stub endpoint for participants to join an existing session. In
- * future phases this will validate the session code, record
- * consent/visibility, and create a participant record. Currently it
- * returns a 501 Not Implemented status.
+ * Join a session by code. The JSON body contains `displayName`,
+ * `sessionCode` (normalised first, so case, spaces, dashes and
+ * lookalike characters do not matter), `isVisible` and `consentGiven`;
+ * the caller must be signed in (anonymously is enough). The session
+ * must exist and be open for joining (see `lib/sessionState.ts`), the
+ * display name must be unused in the session (ignoring case), and the
+ * session's `max_participants` cap, if any, must not be reached. On
+ * success a participant owned by the signed-in user is created and a
+ * signed participant token is returned for the page to store. Joining a
+ * session the user is already in returns a token for the existing
+ * participant, in any state but `ended`.
+ *
+ * Attempts are rate limited per client IP and per code (see
+ * `lib/rateLimit.ts`) so codes cannot be enumerated; over the limit
+ * the route answers 429 with a `Retry-After` header.
  */
-export async function POST(_request: NextRequest) {
-  return NextResponse.json({ error: 'Not implemented' }, { status: 501 });
-}
\ No newline at end of file
+export async function POST(request: NextRequest) {
+  try {
+    const byIp = await checkRateLimit('joinPerIp', clientIp(request));
+    if (!byIp.allowed) {
+      return NextResponse.json(
+        { error: 'Too many join attempts. Please wait and try again.' },
+        { status: 429, headers: { 'Retry-After': String(byIp.retryAfter) } },
+      );
+    }
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const body = await request.json().catch(() => null);
+    const displayName = typeof body?.displayName === 'string' ? body.displayName.trim() : '';
+    const sessionCode = typeof body?.sessionCode === 'string' ? normalizeSessionCode(body.sessionCode) : '';
+    const errors: string[] = [];
+    if (!displayName) errors.push('displayName is required');
+    if (displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+      errors.push(`displayName must be at most ${MAX_DISPLAY_NAME_LENGTH} characters`);
+    }
+    if (!sessionCode) errors.push('sessionCode is required');
+    if (!body?.consentGiven) errors.push('Consent must be given to join a session');
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid join request', details: errors }, { status: 400 });
+    }
+    const byCode = await checkRateLimit('joinPerCode', sessionCode);
+    if (!byCode.allowed) {
+      return NextResponse.json(
+        { error: 'Too many join attempts for this session. Please wait and try again.' },
+        { status: 429, headers: { 'Retry-After': String(byCode.retryAfter) } },
+      );
+    }
+
+    const repository = getRepository();
+    const session = await repository.sessions.findByCode(sessionCode);
+    if (!session) {
+      // Codes issued before the checksum was enabled lack one, so it is
+      // only used to explain a failed lookup
+      const mistyped = sessionCodeChecksumEnabled() && !hasValidChecksum(sessionCode);
+      const error = mistyped ? 'That code looks mistyped. Please check it and try again.' : 'Session not found';
+      return NextResponse.json({ error }, { status: 404 });
+    }
+    const state = effectiveState(session);
+    if (state === 'ended') {
+      return NextResponse.json({ error: 'This session has ended' }, { status: 410 });
+    }
+
+    const issue = (participantId: string) =>
+      signParticipantToken({
+        participantId,
+        sessionId: session.id,
+        userId: auth.userId,
+        iat: Math.floor(Date.now() / 1000),
+      });
+
+    const existing = await repository.participants.findByUser(session.id, auth.userId);
+    if (existing) {
+      return NextResponse.json({ token: issue(existing.id) });
+    }
+    if (!canJoin(state)) {
+      const error = state === 'draft' ? 'This session has not opened yet' : 'This session is closed to new participants';
+      return NextResponse.json({ error, state }, { status: 403 });
+    }
+
+    if (await repository.participants.findByName(session.id, displayName)) {
+      return NextResponse.json({ error: 'That name is already taken in this session' }, { status: 409 });
+    }
+
+    if (session.max_participants) {
+      if ((await repository.participants.count(session.id)) >= session.max_participants) {
+        return NextResponse.json({ error: 'This session is full' }, { status: 403 });
+      }
+    }
+
+    const participant = await repository.participants.create({
+      session_id: session.id,
+      user_id: auth.userId,
+      display_name: displayName,
+      is_visible: !!body.isVisible,
+      consent_given: true,
+    });
+    if (!participant) {
+      // Someone else took the name since the check above
+      return NextResponse.json({ error: 'That name is already taken in this session' }, { status: 409 });
+    }
+    return NextResponse.json({ token: issue(participant.id) }, { status: 201 });
+  } catch (err) {
+    console.error('Error in POST /api/join:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
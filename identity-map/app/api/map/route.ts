@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { classicalMds } from '@/lib/layout';
+import { PairScores, ParticipantSummary, parseScope, scoreForScope } from '@/lib/matches';
+import { getSessionPairs, pairKey } from '@/lib/similarityCache';
+import { matchesRevealed } from '@/lib/sessionState';
+import { authenticate, findTokenParticipant } from '@/lib/supabaseServer';
+import { getRepository } from '@/lib/repository';
+
+/**
+ * GET /api/map?scope=overall|given|chosen|core
+ *
+ * Return a 2D layout of the visible participants (plus the requesting
+ * participant, even when hidden) for the People Map. Positions come
+ * from classical MDS on the pairwise distances `1 - score` for the
+ * selected scope; a pair with no data in that lens counts as fully
+ * distant. Each point carries its scores against the requesting
+ * participant so the page can show the lens breakdown on hover.
+ * Coordinates are in [-1, 1]. The requesting participant is named by
+ * the request's participant token. Like `/api/matches`, only available
+ * once matches are revealed.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const { searchParams } = new URL(request.url);
+    const scope = parseScope(searchParams.get('scope'));
+
+    if (!scope) {
+      return NextResponse.json({ error: 'Invalid scope' }, { status: 400 });
+    }
+
+    const self = await findTokenParticipant(request, auth);
+    if (!self) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+    if (!matchesRevealed(self.state)) {
+      return NextResponse.json({ error: 'Matches have not been revealed yet', state: self.state }, { status: 403 });
+    }
+    const participantId = self.id;
+
+    const visible = (await getRepository(auth).participants.list(self.session_id, { visibleOnly: true })).map((p) => ({
+      id: p.id,
+      display_name: p.display_name,
+    }));
+    const participants: ParticipantSummary[] = visible.some((p) => p.id === participantId)
+      ? visible
+      : [{ id: self.id, display_name: self.display_name }, ...visible];
+
+    const pairs = await getSessionPairs(self.session_id, participants.map((p) => p.id));
+    const distances = participants.map((p) =>
+      participants.map((q) => {
+        if (p.id === q.id) return 0;
+        const score = scoreForScope(pairs[pairKey(p.id, q.id)].scores, scope);
+        return 1 - (score ?? 0);
+      }),
+    );
+    const layout = classicalMds(distances);
+
+    return NextResponse.json({
+      scope,
+      points: participants.map((participant, i) => {
+        const isSelf = participant.id === participantId;
+        const scores: PairScores | null = isSelf ? null : pairs[pairKey(participantId, participant.id)].scores;
+        return { participant, x: layout[i].x, y: layout[i].y, isSelf, scores };
+      }),
+    });
+  } catch (err) {
+    console.error('Error in GET /api/map:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
@@ -1,13 +1,90 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { LENSES } from '@/lib/identity';
+import { matchesFromPairs, parseScope, rankMatches } from '@/lib/matches';
+import { getPairResults } from '@/lib/similarityCache';
+import { matchesRevealed } from '@/lib/sessionState';
+import { authenticate, findTokenParticipant } from '@/lib/supabaseServer';
+import { getRepository } from '@/lib/repository';
+
+const DEFAULT_LIMIT = 3;
+const MAX_LIMIT = 10;
 
 /**
- * GET /api/matches?scope=overall|given|chosen|core
+ * GET /api/matches?scope=overall|given|chosen|core&limit=3[&peerId=...]
+ *
+ * Return the top similar and most different visible participants for
+ * the requesting participant within their session. Similarity is
+ * computed on the server so other participants' identity items never
+ * leave it; only scores and explanations are returned. `matches` lists
+ * every visible participant with their scores and explanations so the
+ * page can render the full list and re-rank it locally. Pair scores are
+ * read from `similarity_cache`, computing only the pairs that are
+ * missing.
+ *
+ * With `peerId`, only that participant's match is returned as
+ * `{ scope, match }`, with `match` null when the peer is not visible.
+ * Pages use this to apply live updates one participant at a time.
  *
- * Placeholder endpoint to return top similar and different matches
- * for the requesting participant within their session. The `scope`
- * query parameter will determine which lens to use for ranking.
- * Currently this endpoint returns 501 Not Implemented.
+ * The requesting participant is named by the request's participant
+ * token. Answers 403 until the facilitator reveals the session's
+ * matches.
  */
-export async function GET(_request: NextRequest) {
-  return NextResponse.json({ error: 'Not implemented' }, { status: 501 });
-}
\ No newline at end of file
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const { searchParams } = new URL(request.url);
+    const peerId = searchParams.get('peerId');
+    const scope = parseScope(searchParams.get('scope'));
+    const limitParam = Number(searchParams.get('limit') ?? DEFAULT_LIMIT);
+    const limit = Number.isFinite(limitParam) ? Math.min(Math.max(Math.floor(limitParam), 1), MAX_LIMIT) : DEFAULT_LIMIT;
+
+    if (!scope) {
+      return NextResponse.json({ error: 'Invalid scope' }, { status: 400 });
+    }
+
+    // Resolve the participant's session
+    const self = await findTokenParticipant(request, auth);
+    if (!self) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+    if (!matchesRevealed(self.state)) {
+      return NextResponse.json({ error: 'Matches have not been revealed yet', state: self.state }, { status: 403 });
+    }
+    const participantId = self.id;
+
+    // Only visible participants are ranked
+    const repository = getRepository(auth);
+    const visible = (
+      await repository.participants.list(self.session_id, { visibleOnly: true, ids: peerId ? [peerId] : undefined })
+    ).map((p) => ({ id: p.id, display_name: p.display_name }));
+
+    if (peerId) {
+      const pairs = await getPairResults(self.session_id, participantId, visible.map((p) => p.id));
+      const [match] = matchesFromPairs(participantId, visible, pairs, scope);
+      return NextResponse.json({ scope, match: match ?? null });
+    }
+
+    // Lenses in which the requesting participant has at least one item
+    const myItems = await repository.identityItems.list([participantId]);
+    const hasMyItems = Object.fromEntries(LENSES.map((lens) => [lens, myItems.some((item) => item.lens === lens)]));
+
+    const pairs = await getPairResults(self.session_id, participantId, visible.map((p) => p.id));
+    const matches = matchesFromPairs(participantId, visible, pairs, scope);
+    const { topSimilar, topDifferent } = rankMatches(matches, limit);
+
+    return NextResponse.json({
+      scope,
+      hasMyItems,
+      participants: visible,
+      matches,
+      topSimilar,
+      topDifferent,
+    });
+  } catch (err) {
+    console.error('Error in GET /api/matches:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, findTokenParticipant } from '@/lib/supabaseServer';
+import { getRepository } from '@/lib/repository';
+
+/**
+ * GET /api/participant
+ *
+ * Return the participant named by the request's participant token
+ * (display name, visibility, consent and session), their session's
+ * effective lifecycle state and their identity items, oldest first.
+ * Used by the My Identity page.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const self = await findTokenParticipant(request, auth);
+    const repository = getRepository(auth);
+    const participant = self ? await repository.participants.get(self.id) : null;
+    if (!self || !participant) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+    const items = await repository.identityItems.list([participant.id]);
+    return NextResponse.json({
+      participant: {
+        display_name: participant.display_name,
+        is_visible: participant.is_visible,
+        consent_given: participant.consent_given,
+        session_id: participant.session_id,
+      },
+      state: self.state,
+      items: items.map(({ id, lens, type, label, value, weight }) => ({ id, lens, type, label, value, weight })),
+    });
+  } catch (err) {
+    console.error('Error in GET /api/participant:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/participant
+ *
+ * Change the participant's visibility. The JSON body contains
+ * `isVisible`; hidden participants are left out of other people's
+ * matches and the People Map.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const body = await request.json().catch(() => null);
+    if (typeof body?.isVisible !== 'boolean') {
+      return NextResponse.json({ error: 'Invalid request', details: ['isVisible must be a boolean'] }, { status: 400 });
+    }
+    const self = await findTokenParticipant(request, auth);
+    if (!self) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+    const updated = await getRepository(auth).participants.update(self.id, { is_visible: body.isVisible });
+    if (!updated) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+    return NextResponse.json({ isVisible: updated.is_visible });
+  } catch (err) {
+    console.error('Error in PATCH /api/participant:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/participant
+ *
+ * Delete the participant together with their identity items and
+ * cached similarity scores. Allowed in any session state.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const self = await findTokenParticipant(request, auth);
+    if (!self) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+    await getRepository(auth).participants.delete(self.id);
+    return NextResponse.json({ deleted: true });
+  } catch (err) {
+    console.error('Error in DELETE /api/participant:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, findTokenParticipant } from '@/lib/supabaseServer';
+import { getRepository } from '@/lib/repository';
+
+/**
+ * GET /api/partner
+ *
+ * Return the requesting participant's partners in the latest
+ * conversation round of their session: one person, or two when they
+ * are in a triad. `round` is null before the first round and
+ * `partners` is empty when the participant sits this round out.
+ * Partners who have since hidden themselves are not named. The
+ * participant is named by the request's participant token.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const self = await findTokenParticipant(request, auth);
+    if (!self) {
+      return NextResponse.json({ error: 'Participant not found' }, { status: 404 });
+    }
+    const participantId = self.id;
+
+    const repository = getRepository(auth);
+    const rounds = await repository.pairingRounds.list(self.session_id);
+    if (rounds.length === 0) {
+      return NextResponse.json({ round: null, partners: [] });
+    }
+
+    const latest = rounds[rounds.length - 1];
+    const group: string[] = latest.groups.find((g) => g.includes(participantId)) ?? [];
+    const partnerIds = group.filter((id) => id !== participantId);
+    let partners: { id: string; display_name: string }[] = [];
+    if (partnerIds.length > 0) {
+      const visible = await repository.participants.list(self.session_id, { visibleOnly: true, ids: partnerIds });
+      partners = visible.map((p) => ({ id: p.id, display_name: p.display_name }));
+    }
+    return NextResponse.json({ round: { number: latest.round_number, mode: latest.mode }, partners });
+  } catch (err) {
+    console.error('Error in GET /api/partner:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
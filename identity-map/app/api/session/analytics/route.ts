@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { computeSessionAnalytics } from '@/lib/analytics';
+import { canonicaliserFor } from '@/lib/similarity';
+import { getSessionPairs } from '@/lib/similarityCache';
+import { loadSessionConfig } from '@/lib/similarityConfig';
+import { authenticate, findFacilitatedSession } from '@/lib/supabaseServer';
+import { getRepository } from '@/lib/repository';
+
+/**
+ * GET /api/session/analytics?sessionId=...
+ *
+ * Aggregate dashboard for a session: participants visible vs hidden,
+ * items per lens, the most common tags per lens (only those shared by
+ * enough participants, see `lib/analytics.ts`) and the distribution of
+ * pairwise overall scores. Covers every participant, visible or not,
+ * but returns counts only, never names or individual items.
+ * Facilitators only.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const sessionId = new URL(request.url).searchParams.get('sessionId');
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Missing sessionId' }, { status: 400 });
+    }
+    if (!(await findFacilitatedSession(auth, sessionId))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const repository = getRepository();
+    const participants = await repository.participants.list(sessionId);
+    const ids = participants.map((p) => p.id);
+    const items = await repository.identityItems.list(ids);
+
+    const config = await loadSessionConfig(sessionId, repository);
+    const pairs = await getSessionPairs(sessionId, ids, repository);
+    const scores = Object.values(pairs).map((pair) => pair.scores.overall);
+
+    return NextResponse.json({
+      analytics: computeSessionAnalytics(participants, items, scores, canonicaliserFor(config)),
+    });
+  } catch (err) {
+    console.error('Error in GET /api/session/analytics:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseSimilarityConfig, resolveSimilarityConfig } from '@/lib/similarityConfig';
+import { invalidateSession } from '@/lib/similarityCache';
+import { listTextLanguages } from '@/lib/similarity';
+import { authenticate, findFacilitatedSession } from '@/lib/supabaseServer';
+import { getRepository } from '@/lib/repository';
+
+/**
+ * GET /api/session/config?sessionId=...
+ *
+ * Return the similarity config of a session, with defaults filled in
+ * for anything the facilitator has not set, and the text languages it
+ * can select. Facilitators only.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const sessionId = new URL(request.url).searchParams.get('sessionId');
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Missing sessionId' }, { status: 400 });
+    }
+    if (!(await findFacilitatedSession(auth, sessionId))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    const session = await getRepository().sessions.get(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    return NextResponse.json({
+      config: resolveSimilarityConfig(session.similarity_config),
+      languages: listTextLanguages(),
+    });
+  } catch (err) {
+    console.error('Error in GET /api/session/config:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/session/config
+ *
+ * Replace the similarity config of a session. The JSON body contains
+ * `sessionId` and `config`, a partial `SimilarityConfig`; omitted
+ * fields use the defaults. Cached similarity scores for the session
+ * are invalidated so matches are recomputed with the new model.
+ * Facilitators only.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const body = await request.json().catch(() => null);
+    if (!body || !body.sessionId) {
+      return NextResponse.json({ error: 'Missing sessionId' }, { status: 400 });
+    }
+    if (!(await findFacilitatedSession(auth, String(body.sessionId)))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    const { config, errors } = parseSimilarityConfig(body.config);
+    if (!config) {
+      return NextResponse.json({ error: 'Invalid similarity config', details: errors }, { status: 400 });
+    }
+    const repository = getRepository();
+    const session = await repository.sessions.update(String(body.sessionId), { similarity_config: config });
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    await invalidateSession(session.id, repository);
+    return NextResponse.json({ config });
+  } catch (err) {
+    console.error('Error in PUT /api/session/config:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
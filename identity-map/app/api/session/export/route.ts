@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_MIN_GROUP_SIZE, computeSessionAnalytics } from '@/lib/analytics';
+import { GROUPING_MODES, GroupingMode, partitionIntoGroups } from '@/lib/grouping';
+import { canonicaliserFor } from '@/lib/similarity';
+import { getSessionPairs, pairKey } from '@/lib/similarityCache';
+import { loadSessionConfig } from '@/lib/similarityConfig';
+import { effectiveState } from '@/lib/sessionState';
+import { EXPORT_TABLES, ExportTable, buildSessionExport, exportTableCsv } from '@/lib/sessionExport';
+import { authenticate, findFacilitatedSession } from '@/lib/supabaseServer';
+import { getRepository } from '@/lib/repository';
+
+const MAX_GROUPS = 20;
+
+/**
+ * GET /api/session/export?sessionId=...&format=json|csv[&table=tags|similarity|rounds|groups][&groups=4&mode=similar|diverse]
+ *
+ * Download a session's results: shared tag counts (k-anonymous), the
+ * pairwise similarity matrix, conversation rounds and, when `groups`
+ * is given, that many affinity groups of the visible participants.
+ * Only consenting participants are included, and only visible ones by
+ * name; see `lib/sessionExport.ts`. JSON contains everything; CSV
+ * contains the one `table` asked for (tags by default). Facilitators
+ * only.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+    const format = searchParams.get('format') ?? 'json';
+    const table = (searchParams.get('table') ?? 'tags') as ExportTable;
+    const k = searchParams.get('groups') ? Number(searchParams.get('groups')) : null;
+    const mode = (searchParams.get('mode') ?? 'similar') as GroupingMode;
+
+    const errors: string[] = [];
+    if (!sessionId) errors.push('sessionId is required');
+    if (format !== 'json' && format !== 'csv') errors.push('format must be json or csv');
+    if (!EXPORT_TABLES.includes(table)) errors.push(`table must be one of ${EXPORT_TABLES.join(', ')}`);
+    if (k !== null && (!Number.isInteger(k) || k < 1 || k > MAX_GROUPS)) {
+      errors.push(`groups must be an integer between 1 and ${MAX_GROUPS}`);
+    }
+    if (!GROUPING_MODES.includes(mode)) errors.push(`mode must be one of ${GROUPING_MODES.join(', ')}`);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid request', details: errors }, { status: 400 });
+    }
+    if (!(await findFacilitatedSession(auth, sessionId))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const repository = getRepository();
+    const session = await repository.sessions.get(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    const participants = (await repository.participants.list(sessionId)).filter((p) => p.consent_given);
+    const ids = participants.map((p) => p.id);
+    const items = await repository.identityItems.list(ids);
+    const rounds = await repository.pairingRounds.list(sessionId);
+
+    const config = await loadSessionConfig(sessionId, repository);
+    const pairs = await getSessionPairs(sessionId, ids, repository);
+    const pairScores = (a: string, b: string) => pairs[pairKey(a, b)].scores;
+    const analytics = computeSessionAnalytics(
+      participants,
+      items,
+      Object.values(pairs).map((pair) => pair.scores.overall),
+      canonicaliserFor(config),
+      DEFAULT_MIN_GROUP_SIZE,
+      Infinity,
+    );
+
+    let groups: { mode: string; members: string[][] } | null = null;
+    if (k !== null) {
+      const visible = participants.filter((p) => p.is_visible).map((p) => p.id);
+      if (k > visible.length) {
+        return NextResponse.json(
+          { error: `Cannot make ${k} groups from ${visible.length} visible participants` },
+          { status: 400 },
+        );
+      }
+      const distances = visible.map((a) => visible.map((b) => (a === b ? 0 : 1 - pairScores(a, b).overall)));
+      groups = { mode, members: partitionIntoGroups(distances, k, mode).map((indices) => indices.map((i) => visible[i])) };
+    }
+
+    const data = buildSessionExport({
+      session: { title: session.title, code: session.code, state: effectiveState(session) },
+      participants,
+      analytics,
+      pairScores,
+      rounds,
+      groups,
+    });
+    if (format === 'json') {
+      return NextResponse.json(data, {
+        headers: { 'Content-Disposition': `attachment; filename="identity-map-${session.code}.json"` },
+      });
+    }
+    return new NextResponse(exportTableCsv(data, table), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="identity-map-${session.code}-${table}.csv"`,
+      },
+    });
+  } catch (err) {
+    console.error('Error in GET /api/session/export:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GROUPING_MODES, GroupingMode, groupSharedTags, partitionIntoGroups } from '@/lib/grouping';
+import { parseScope, scoreForScope } from '@/lib/matches';
+import { getSessionPairs, pairKey } from '@/lib/similarityCache';
+import { authenticate, findFacilitatedSession } from '@/lib/supabaseServer';
+import { getRepository } from '@/lib/repository';
+
+const MAX_GROUPS = 20;
+
+/**
+ * GET /api/session/groups?sessionId=...&k=4&mode=similar|diverse&scope=overall
+ *
+ * Split the visible participants of a session into `k` affinity
+ * groups, either of similar people or deliberately diverse ones, using
+ * the pairwise distances `1 - score` for the selected scope (overall by
+ * default). Hidden participants are left out so they can be placed by
+ * hand. Each group lists its members and the tags they share.
+ * Facilitators only.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+    const k = Number(searchParams.get('k'));
+    const mode = (searchParams.get('mode') ?? 'similar') as GroupingMode;
+    const scope = parseScope(searchParams.get('scope'));
+
+    const errors: string[] = [];
+    if (!sessionId) errors.push('sessionId is required');
+    if (!Number.isInteger(k) || k < 1 || k > MAX_GROUPS) errors.push(`k must be an integer between 1 and ${MAX_GROUPS}`);
+    if (!GROUPING_MODES.includes(mode)) errors.push(`mode must be one of ${GROUPING_MODES.join(', ')}`);
+    if (!scope) errors.push('Invalid scope');
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid request', details: errors }, { status: 400 });
+    }
+    if (!(await findFacilitatedSession(auth, sessionId))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const repository = getRepository();
+    const participants = (await repository.participants.list(sessionId, { visibleOnly: true })).map((p) => ({
+      id: p.id,
+      display_name: p.display_name,
+    }));
+    if (k > participants.length) {
+      return NextResponse.json(
+        { error: `Cannot make ${k} groups from ${participants.length} visible participants` },
+        { status: 400 },
+      );
+    }
+
+    const pairs = await getSessionPairs(sessionId, participants.map((p) => p.id), repository);
+    const distances = participants.map((p) =>
+      participants.map((q) => (p.id === q.id ? 0 : 1 - (scoreForScope(pairs[pairKey(p.id, q.id)].scores, scope) ?? 0))),
+    );
+    const groups = partitionIntoGroups(distances, k, mode).map((indices) => {
+      const members = indices.map((i) => participants[i]);
+      const memberPairs = members.flatMap((a, i) =>
+        members.slice(i + 1).map((b) => ({ aId: a.id, bId: b.id, result: pairs[pairKey(a.id, b.id)] })),
+      );
+      return { members, sharedTags: groupSharedTags(memberPairs) };
+    });
+
+    return NextResponse.json({ mode, scope, groups });
+  } catch (err) {
+    console.error('Error in GET /api/session/groups:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
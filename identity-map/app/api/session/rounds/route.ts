@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PAIRING_MODES, PairingMode, pairRound, previousMeetings } from '@/lib/pairing';
+import { getSessionPairs, pairKey } from '@/lib/similarityCache';
+import { authenticate, findFacilitatedSession } from '@/lib/supabaseServer';
+import { PairingRoundRecord, getRepository } from '@/lib/repository';
+
+/**
+ * Replace participant ids in each round's groups with their display
+ * names. Participants who have since deleted their data are dropped.
+ */
+async function withNames(sessionId: string, rounds: PairingRoundRecord[]) {
+  const participants = await getRepository().participants.list(sessionId);
+  const byId = new Map(participants.map((p) => [p.id, { id: p.id, display_name: p.display_name }]));
+  return rounds.map((round) => ({
+    id: round.id,
+    round_number: round.round_number,
+    mode: round.mode,
+    created_at: round.created_at,
+    groups: round.groups.map((group) => group.map((id) => byId.get(id)).filter((p) => p !== undefined)),
+  }));
+}
+
+/**
+ * GET /api/session/rounds?sessionId=...
+ *
+ * List the conversation rounds of a session with each round's groups.
+ * Facilitators only.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const sessionId = new URL(request.url).searchParams.get('sessionId');
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Missing sessionId' }, { status: 400 });
+    }
+    if (!(await findFacilitatedSession(auth, sessionId))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    return NextResponse.json({ rounds: await withNames(sessionId, await getRepository().pairingRounds.list(sessionId)) });
+  } catch (err) {
+    console.error('Error in GET /api/session/rounds:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/session/rounds
+ *
+ * Start the next conversation round. The JSON body contains
+ * `sessionId` and `mode` ('different' pairs the most different people,
+ * 'similar' the most similar). Only visible participants are paired,
+ * using their overall similarity, and pairs from earlier rounds are
+ * avoided while fresh pairings remain. Answers 409 when another round
+ * was started at the same time. Facilitators only.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const body = await request.json().catch(() => null);
+    const sessionId = body?.sessionId;
+    const mode = (body?.mode ?? 'different') as PairingMode;
+    const errors: string[] = [];
+    if (!sessionId || typeof sessionId !== 'string') errors.push('sessionId is required');
+    if (!PAIRING_MODES.includes(mode)) errors.push(`mode must be one of ${PAIRING_MODES.join(', ')}`);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid request', details: errors }, { status: 400 });
+    }
+    if (!(await findFacilitatedSession(auth, sessionId))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const repository = getRepository();
+    const participants = await repository.participants.list(sessionId, { visibleOnly: true });
+    if (participants.length < 2) {
+      return NextResponse.json({ error: 'At least two visible participants are needed for a round' }, { status: 400 });
+    }
+
+    const ids = participants.map((p) => p.id);
+    const rounds = await repository.pairingRounds.list(sessionId);
+    const pairs = await getSessionPairs(sessionId, ids, repository);
+    const groups = pairRound(
+      ids,
+      (x, y) => pairs[pairKey(x, y)].scores.overall,
+      mode,
+      previousMeetings(rounds.map((round) => round.groups)),
+    );
+    const roundNumber = (rounds[rounds.length - 1]?.round_number ?? 0) + 1;
+
+    const created = await repository.pairingRounds.create({ session_id: sessionId, round_number: roundNumber, mode, groups });
+    if (!created) {
+      // Another request started this round since the rounds were listed
+      return NextResponse.json(
+        { error: 'Another round was just started. Refresh to see it before starting the next one.' },
+        { status: 409 },
+      );
+    }
+    const [round] = await withNames(sessionId, [created]);
+    return NextResponse.json({ round });
+  } catch (err) {
+    console.error('Error in POST /api/session/rounds:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
@@ -1,44 +1,121 @@
+import { randomInt } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabaseClient';
-import { generateSessionCode } from '@/lib/codeGenerator';
+import { generateSessionCode, sessionCodeChecksumEnabled } from '@/lib/codeGenerator';
+import { authenticate } from '@/lib/supabaseServer';
+import { getRepository } from '@/lib/repository';
+import { effectiveState } from '@/lib/sessionState';
+import { checkRateLimit, clientIp } from '@/lib/rateLimit';
+
+// Codes are random, so a clash with an existing code is rare; retry
+// with a fresh code a few times before giving up
+const MAX_CODE_ATTEMPTS = 5;
 
 /**
- * POST /api/session
+ * GET /api/session
  *
- * Create a new session. The request body should contain `title`,
- * `facilitatorEmail` and an optional `expiresAt` ISO timestamp.
- * A unique join code between 6–8 characters will be generated and
- * returned along with the new session record.
+ * List the sessions facilitated by the signed-in user, newest first,
+ * each with its participant count and effective lifecycle state.
  */
-export async function POST(request: NextRequest) {
-  const body = await request.json().catch(() => null);
-  if (!body || !body.title) {
-    return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth?.email) {
+      return NextResponse.json({ error: 'Sign in as a facilitator' }, { status: 401 });
+    }
+    const repository = getRepository();
+    const sessions = await repository.sessions.listByFacilitator(auth.email);
+    const counts = await Promise.all(sessions.map((s) => repository.participants.count(s.id)));
+    return NextResponse.json({
+      sessions: sessions.map((s, idx) => ({
+        id: s.id,
+        code: s.code,
+        title: s.title,
+        state: effectiveState(s),
+        expires_at: s.expires_at,
+        max_participants: s.max_participants,
+        created_at: s.created_at,
+        participantCount: counts[idx],
+      })),
+    });
+  } catch (err) {
+    console.error('Error in GET /api/session:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
   }
+}
 
-  const { title, facilitatorEmail, expiresAt } = body as {
-    title: string;
-    facilitatorEmail?: string;
-    expiresAt?: string;
-  };
+/**
+ * POST /api/session
+ *
+ * Create a new session facilitated by the signed-in user. The request
+ * body should contain `title`, an optional `expiresAt` ISO timestamp in
+ * the future and an optional `maxParticipants` cap (a positive integer;
+ * joining is refused once it is reached); the facilitator email is
+ * taken from the sign-in. New sessions start as drafts. A unique join
+ * code between 6–8 characters will be generated and returned along with
+ * the new session record; with `SESSION_CODE_CHECKSUM` set its last
+ * character is a check character. If the code is already taken a new
+ * one is generated. Creation is rate limited per client IP.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limit = await checkRateLimit('createSessionPerIp', clientIp(request));
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many sessions created. Please wait and try again.' },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } },
+      );
+    }
+    const auth = await authenticate(request);
+    if (!auth?.email) {
+      return NextResponse.json({ error: 'Sign in as a facilitator' }, { status: 401 });
+    }
+    const body = await request.json().catch(() => null);
+    if (!body || !body.title || !String(body.title).trim()) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
 
-  // Generate a random code length between 6 and 8
-  const length = 6 + Math.floor(Math.random() * 3);
-  const code = generateSessionCode(length);
+    const { title, expiresAt, maxParticipants } = body as {
+      title: string;
+      expiresAt?: string;
+      maxParticipants?: number | null;
+    };
+    if (maxParticipants != null && !(Number.isInteger(maxParticipants) && maxParticipants > 0)) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: ['maxParticipants must be a positive integer'] },
+        { status: 400 },
+      );
+    }
+    const expiresAtMs = expiresAt != null ? Date.parse(String(expiresAt)) : null;
+    if (expiresAtMs !== null && !(Number.isFinite(expiresAtMs) && expiresAtMs > Date.now())) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: ['expiresAt must be a future ISO timestamp'] },
+        { status: 400 },
+      );
+    }
 
-  const { data, error } = await supabase
-    .from('sessions')
-    .insert({
-      code,
-      title,
-      facilitator_email: facilitatorEmail ?? null,
-      expires_at: expiresAt ?? null,
-    })
-    .select()
-    .single();
+    const repository = getRepository();
+    const checksum = sessionCodeChecksumEnabled();
+    let session = null;
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS && !session; attempt++) {
+      // Generate a random code length between 6 and 8
+      const length = 6 + randomInt(3);
+      // Null means the code is already in use
+      session = await repository.sessions.create({
+        code: generateSessionCode(length, { checksum }),
+        title: String(title).trim(),
+        facilitator_email: auth.email,
+        expires_at: expiresAtMs !== null ? new Date(expiresAtMs).toISOString() : null,
+        max_participants: maxParticipants ?? null,
+        state: 'draft',
+      });
+    }
 
-  if (error) {
-    return NextResponse.json({ error: error.message }, { status: 500 });
+    if (!session) {
+      return NextResponse.json({ error: 'Could not generate a unique session code' }, { status: 500 });
+    }
+    return NextResponse.json({ session }, { status: 201 });
+  } catch (err) {
+    console.error('Error in POST /api/session:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
   }
-  return NextResponse.json({ session: data }, { status: 201 });
-}
\ No newline at end of file
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, findFacilitatedSession } from '@/lib/supabaseServer';
+import { getRepository } from '@/lib/repository';
+import { canTransition, effectiveState, parseSessionState } from '@/lib/sessionState';
+
+/**
+ * POST /api/session/state
+ *
+ * Move a session to another lifecycle state. The JSON body contains
+ * `sessionId` and `state`; only the transitions allowed by
+ * `lib/sessionState.ts` are accepted, others answer 409. Ending a
+ * session also sets its `expires_at` to now so the purge script picks
+ * it up. Facilitators only.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (!auth) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const body = await request.json().catch(() => null);
+    const errors: string[] = [];
+    if (!body?.sessionId) errors.push('sessionId is required');
+    const next = parseSessionState(body?.state);
+    if (!next) errors.push('state must be one of draft, open, locked, revealed, ended');
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid request', details: errors }, { status: 400 });
+    }
+    const sessionId = String(body.sessionId);
+    if (!(await findFacilitatedSession(auth, sessionId))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    const repository = getRepository();
+    const session = await repository.sessions.get(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    const current = effectiveState(session);
+    if (!canTransition(current, next)) {
+      return NextResponse.json({ error: `Cannot move a session from ${current} to ${next}`, state: current }, { status: 409 });
+    }
+    const update: { state: string; expires_at?: string } = { state: next };
+    if (next === 'ended') update.expires_at = new Date().toISOString();
+    const updated = await repository.sessions.update(sessionId, update);
+    if (!updated) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    return NextResponse.json({ session: { id: updated.id, state: updated.state, expires_at: updated.expires_at } });
+  } catch (err) {
+    console.error('Error in POST /api/session/state:', err);
+    return NextResponse.json({ error: 'Unexpected server error' }, { status: 500 });
+  }
+}
@@ -1,17 +1,18 @@
 "use client";
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabaseClient';
+import { authFetch, ensureSignedIn, storeParticipantToken } from '@/lib/authFetch';
 
 /**
  * Join Session page
  *
  * Allows a participant to join an existing session by entering a
  * display name and join code, providing consent, and choosing
- * visibility. On success it creates a new participant record,
- * stores the participant and session IDs in localStorage, and
- * redirects to the My Identity page. Consent is required to
- * proceed.
+ * visibility. Joining signs the browser in anonymously with
+ * Supabase (reusing an existing sign-in), then asks `/api/join` to
+ * create a participant record owned by that user. The signed
+ * participant token it returns is stored in place of raw IDs and the
+ * page redirects to My Identity. Consent is required to proceed.
  */
 export default function JoinPage() {
   const [code, setCode] = useState('');
@@ -34,38 +35,30 @@ export default function JoinPage() {
     }
     setError(null);
     setLoading(true);
-    // Look up session by code
-    const { data: session, error: sessionErr } = await supabase
-      .from('sessions')
-      .select('id')
-      .eq('code', code.trim())
-      .single();
-    if (sessionErr || !session) {
-      setError('Session not found. Please check your code.');
+    try {
+      await ensureSignedIn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in.');
       setLoading(false);
       return;
     }
-    // Insert participant record. We rely on public insert policy for now.
-    const { data: participant, error: partErr } = await supabase
-      .from('participant')
-      .insert({
-        session_id: session.id,
-        display_name: displayName.trim(),
-        is_visible: isVisible,
-        consent_given: consentGiven,
-      })
-      .select()
-      .single();
-    if (partErr || !participant) {
-      setError(partErr?.message ?? 'Failed to join the session.');
+    const res = await authFetch('/api/join', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        displayName: displayName.trim(),
+        sessionCode: code.trim(),
+        isVisible,
+        consentGiven,
+      }),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok || !body.token) {
+      setError(body.error ?? 'Failed to join the session.');
       setLoading(false);
       return;
     }
-    // Persist IDs in localStorage
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('participantId', participant.id);
-      localStorage.setItem('sessionId', session.id);
-    }
+    storeParticipantToken(body.token);
     setLoading(false);
     router.push('/me');
   };
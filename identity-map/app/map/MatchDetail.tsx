@@ -0,0 +1,55 @@
+'use client';
+import type { Lens, LensSimilarityResult } from '@/lib/similarity';
+import type { Match, MatchScope } from '@/lib/matches';
+
+const LENS_LABELS: Record<Lens, string> = { GIVEN: 'Given', CHOSEN: 'Chosen', CORE: 'Core' };
+
+function List({ label, values }: { label: string; values: string[] | undefined }) {
+  if (!values || values.length === 0) return null;
+  return (
+    <p style={{ margin: '0.125rem 0' }}>
+      <span style={{ color: '#6b7280' }}>{label}:</span> {values.join(', ')}
+    </p>
+  );
+}
+
+/**
+ * Explanation of a single match: for each relevant lens, the tag and
+ * text sub-scores, shared tags, taxonomy categories, words and phrases,
+ * and what only one side listed. With the overall scope every lens with
+ * data is shown; otherwise only the selected lens.
+ */
+export default function MatchDetail({ match, scope }: { match: Match; scope: MatchScope }) {
+  const lenses = (scope === 'overall' ? (Object.keys(LENS_LABELS) as Lens[]) : [scope]).filter(
+    (lens) => match.scores[lens] !== null
+  );
+  if (lenses.length === 0) {
+    return <p style={{ fontSize: '0.75rem', color: '#6b7280' }}>Nothing to compare yet.</p>;
+  }
+  return (
+    <div style={{ margin: '0.25rem 0 0.5rem', padding: '0.5rem', backgroundColor: '#f9fafb', borderRadius: '0.25rem', fontSize: '0.75rem' }}>
+      {lenses.map((lens) => {
+        const exp: LensSimilarityResult = match.explanations[lens];
+        return (
+          <div key={lens} style={{ marginBottom: '0.375rem' }}>
+            <p style={{ margin: 0, fontWeight: 600 }}>
+              {LENS_LABELS[lens]} — {Math.round(exp.score * 100)}%
+              {exp.tagScore !== undefined && (
+                <span style={{ fontWeight: 400, color: '#6b7280' }}>
+                  {' '}
+                  (tags {Math.round(exp.tagScore * 100)}%, text {Math.round(exp.textScore * 100)}%)
+                </span>
+              )}
+            </p>
+            <List label="Shared tags" values={exp.overlapTags} />
+            <List label="Both listed something under" values={exp.sharedAncestors} />
+            <List label="Shared words" values={exp.sharedTerms} />
+            <List label="Shared phrases" values={exp.sharedPhrases} />
+            <List label="Only you" values={[...exp.uniqueToA, ...(exp.uniqueTermsA ?? [])]} />
+            <List label="Only them" values={[...exp.uniqueToB, ...(exp.uniqueTermsB ?? [])]} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+import { useState } from 'react';
+import type { Lens } from '@/lib/similarity';
+import type { PairScores, ParticipantSummary } from '@/lib/matches';
+
+const LENS_LABELS: Record<Lens, string> = { GIVEN: 'Given', CHOSEN: 'Chosen', CORE: 'Core' };
+
+const SIZE = 320;
+const PADDING = 24;
+
+export interface MapPoint {
+  participant: ParticipantSummary;
+  x: number;
+  y: number;
+  isSelf: boolean;
+  scores: PairScores | null;
+}
+
+const percent = (value: number | null) => (value === null ? '--' : `${Math.round(value * 100)}%`);
+
+/**
+ * 2D People Map. Points are laid out by the server (coordinates in
+ * [-1, 1]) so that people close together are similar in the selected
+ * scope. The current participant is highlighted; hovering a point shows
+ * that person's overall and per‑lens similarity to you.
+ */
+export default function PeopleMap({ points }: { points: MapPoint[] }) {
+  const [hovered, setHovered] = useState<string | null>(null);
+  const toPixel = (v: number) => PADDING + ((v + 1) / 2) * (SIZE - 2 * PADDING);
+  const active = points.find((p) => p.participant.id === hovered);
+
+  if (points.length < 2) {
+    return <p style={{ color: '#6b7280', fontSize: '0.875rem' }}>The map appears once others join.</p>;
+  }
+  return (
+    <div style={{ position: 'relative', width: SIZE, maxWidth: '100%' }}>
+      <svg
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        width="100%"
+        style={{ border: '1px solid #e5e7eb', borderRadius: '0.5rem', backgroundColor: '#f9fafb' }}
+      >
+        {points.map((p) => (
+          <g
+            key={p.participant.id}
+            onMouseEnter={() => setHovered(p.participant.id)}
+            onMouseLeave={() => setHovered(null)}
+            style={{ cursor: 'default' }}
+          >
+            <circle
+              cx={toPixel(p.x)}
+              cy={toPixel(p.y)}
+              r={p.isSelf ? 9 : 6}
+              fill={p.isSelf ? '#2563eb' : hovered === p.participant.id ? '#374151' : '#9ca3af'}
+              stroke={p.isSelf ? '#1e3a8a' : 'none'}
+              strokeWidth={2}
+            />
+            <text x={toPixel(p.x)} y={toPixel(p.y) - 12} textAnchor="middle" fontSize="10" fill="#374151">
+              {p.isSelf ? 'You' : p.participant.display_name}
+            </text>
+          </g>
+        ))}
+      </svg>
+      {active && !active.isSelf && active.scores && (
+        <div
+          style={{
+            position: 'absolute',
+            left: `${(toPixel(active.x) / SIZE) * 100}%`,
+            top: `${(toPixel(active.y) / SIZE) * 100}%`,
+            transform: 'translate(-50%, 12px)',
+            backgroundColor: 'white',
+            border: '1px solid #d1d5db',
+            borderRadius: '0.25rem',
+            padding: '0.375rem 0.5rem',
+            fontSize: '0.75rem',
+            pointerEvents: 'none',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          <p style={{ margin: 0, fontWeight: 600 }}>
+            {active.participant.display_name} — {percent(active.scores.overall)}
+          </p>
+          {(Object.keys(LENS_LABELS) as Lens[]).map((lens) => (
+            <p key={lens} style={{ margin: 0, color: '#6b7280' }}>
+              {LENS_LABELS[lens]}: {percent(active.scores[lens])}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,39 +1,55 @@
  'use client';
-import { useEffect, useState } from 'react';
-import { supabase } from '@/lib/supabaseClient';
-import { computeSimilarity, Identity, Lens } from '@/lib/similarity';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Lens } from '@/lib/similarity';
+import { rankMatches } from '@/lib/matches';
+import type { Match, PairScores, ParticipantSummary as ParticipantInfo } from '@/lib/matches';
+import { authFetch, readParticipant } from '@/lib/authFetch';
+import { subscribeToSession } from '@/lib/realtime';
+import type { SessionState } from '@/lib/sessionState';
+import MatchDetail from './MatchDetail';
+import PeopleMap, { MapPoint } from './PeopleMap';
 
-interface ParticipantInfo {
-  id: string;
-  display_name: string;
-}
-
-interface MatchResult {
-  participant: ParticipantInfo;
-  score: number | null;
-}
+const TOP_LIMIT = 3;
+// Give the server time to recompute cached pairs after an edit
+const REFRESH_DELAY_MS = 1000;
 
 /**
  * People Map page
  *
- * Displays all visible participants in the current session along with
- * their overall similarity to the current participant. Also shows
- * Top 3 similar and Top 3 different matches. This implementation
- * computes similarity client‑side for simplicity; later phases may
- * move this to a server route or edge function.
+ * Displays all visible participants in the current session on a 2D
+ * map and as a list with their similarity to the current participant,
+ * plus the Top 3 similar and Top 3 different matches. Similarity and
+ * the layout are computed server‑side. Matches stay hidden until the
+ * facilitator reveals them, and appear as soon as they do. The page
+ * stays live during a workshop: when someone joins, leaves, or edits
+ * their identity, only that person's match is refetched and the top
+ * lists are re‑ranked locally.
  */
 export default function MapPage() {
   const [participantId, setParticipantId] = useState<string | null>(null);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [participants, setParticipants] = useState<ParticipantInfo[]>([]);
+  // One match per other visible participant, with scores and explanations
+  const [matches, setMatches] = useState<Match[]>([]);
   // Similarities keyed by participant id. Each entry holds the overall
   // score and per‑lens scores. A lens score is null when both
   // participants have no data for that lens.
-  const [similarities, setSimilarities] = useState<
-    Record<string, { overall: number; GIVEN: number | null; CHOSEN: number | null; CORE: number | null }>
-  >({});
-  const [topSimilar, setTopSimilar] = useState<MatchResult[]>([]);
-  const [topDifferent, setTopDifferent] = useState<MatchResult[]>([]);
+  const similarities = useMemo(
+    () => Object.fromEntries(matches.map((m) => [m.participant.id, m.scores])) as Record<string, PairScores>,
+    [matches],
+  );
+  const { topSimilar, topDifferent } = useMemo(() => rankMatches(matches, TOP_LIMIT), [matches]);
+  // Bumped to force a full reload, e.g. when the participant's own items change
+  const [reloadKey, setReloadKey] = useState(0);
+  // Ids of participants shown, used to ignore identity events from other sessions
+  const knownIds = useRef(new Set<string>());
+  const [mapPoints, setMapPoints] = useState<MapPoint[]>([]);
+  // Session state while matches are not revealed, null once they are
+  const [hiddenState, setHiddenState] = useState<SessionState | null>(null);
+  // Partners in the latest conversation round, if one has started
+  const [round, setRound] = useState<{ number: number; partners: ParticipantInfo[] } | null>(null);
+  // Bumped when the facilitator starts a new round
+  const [roundKey, setRoundKey] = useState(0);
   // Selected scope for ranking. 'overall' uses the weighted blend.
   // Initialise from localStorage so the choice persists across reloads.
   const [scope, setScopeState] = useState<'overall' | 'GIVEN' | 'CHOSEN' | 'CORE'>(() => {
@@ -68,12 +84,13 @@ export default function MapPage() {
     CORE: false,
   });
 
-  // Load participant and session IDs from localStorage
+  // Load participant and session IDs from the token stored when joining
   useEffect(() => {
-    const pid = localStorage.getItem('participantId');
-    const sid = localStorage.getItem('sessionId');
-    if (pid) setParticipantId(pid);
-    if (sid) setSessionId(sid);
+    const joined = readParticipant();
+    if (joined) {
+      setParticipantId(joined.participantId);
+      setSessionId(joined.sessionId);
+    }
   }, []);
 
   useEffect(() => {
@@ -81,117 +98,120 @@ export default function MapPage() {
     const load = async () => {
       setLoading(true);
       setError(null);
-      // Fetch visible participants in the same session
-      const { data: participantRows, error: partErr } = await supabase
-        .from('participant')
-        .select('id, display_name')
-        .eq('session_id', sessionId)
-        .eq('is_visible', true);
-      if (partErr || !participantRows) {
-        setError(partErr?.message ?? 'Failed to fetch participants');
+      // Similarity is computed server-side; only scores and explanations come back
+      const params = new URLSearchParams({ scope: scope.toLowerCase(), limit: String(TOP_LIMIT) });
+      const [res, mapRes] = await Promise.all([
+        authFetch(`/api/matches?${params.toString()}`),
+        authFetch(`/api/map?${params.toString()}`),
+      ]);
+      const body = await res.json().catch(() => null);
+      const mapBody = await mapRes.json().catch(() => null);
+      if (res.status === 403 && body?.state) {
+        setHiddenState(body.state);
+        setMatches([]);
+        setMapPoints([]);
         setLoading(false);
         return;
       }
-      setParticipants(participantRows);
-      // Fetch identity items for these participants
-      const ids = participantRows.map((p) => p.id);
-      // Always include the current participant even if invisible (for computing my identity)
-      if (!ids.includes(participantId)) ids.push(participantId);
-      const { data: items, error: itemsErr } = await supabase
-        .from('identity_item')
-        .select('*')
-        .in('participant_id', ids);
-      if (itemsErr || !items) {
-        setError(itemsErr?.message ?? 'Failed to fetch identity items');
+      setHiddenState(null);
+      if (!res.ok || !body) {
+        setError(body?.error ?? 'Failed to load matches');
         setLoading(false);
         return;
       }
-      // Build identity map keyed by participant id
-      const identities: Record<string, Identity> = {};
-      ids.forEach((id) => {
-        identities[id] = {
-          tags: { GIVEN: [], CHOSEN: [], CORE: [] },
-          texts: { GIVEN: [], CHOSEN: [], CORE: [] },
-        };
-      });
-      items.forEach((item: any) => {
-        const lens = item.lens as Lens;
-        if (item.type === 'tag') {
-          identities[item.participant_id].tags[lens].push({ value: item.value, weight: item.weight });
-        } else {
-          identities[item.participant_id].texts[lens].push(item.value);
-        }
+      // The map is optional; the lists still render if the layout fails
+      setMapPoints(mapRes.ok && mapBody ? mapBody.points : []);
+      setParticipants(body.participants);
+      setHasMyItems(body.hasMyItems);
+      setMatches(body.matches);
+      setLoading(false);
+    };
+    load();
+  }, [participantId, sessionId, scope, reloadKey]);
+
+  useEffect(() => {
+    knownIds.current = new Set(participants.map((p) => p.id));
+  }, [participants]);
+
+  // Live updates: refetch only the participant who changed
+  useEffect(() => {
+    if (!participantId || !sessionId) return;
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+    const debounce = (key: string, run: () => void) => {
+      clearTimeout(timers.get(key));
+      timers.set(key, setTimeout(run, REFRESH_DELAY_MS));
+    };
+    const params = (extra: Record<string, string> = {}) =>
+      new URLSearchParams({ scope: scope.toLowerCase(), ...extra }).toString();
+
+    // Positions depend on every pair, so the layout is refetched as a whole
+    const refreshMap = () =>
+      debounce('map', async () => {
+        const res = await authFetch(`/api/map?${params()}`);
+        const body = await res.json().catch(() => null);
+        if (res.ok && body) setMapPoints(body.points);
       });
-      const myIdentity = identities[participantId];
-      if (!myIdentity) {
-        setError('Current participant has no identity');
-        setLoading(false);
-        return;
-      }
-      // Determine whether the current participant has items per lens
-      const myHas: { GIVEN: boolean; CHOSEN: boolean; CORE: boolean } = { GIVEN: false, CHOSEN: false, CORE: false };
-      (['GIVEN', 'CHOSEN', 'CORE'] as Lens[]).forEach((lens) => {
-        myHas[lens] =
-          (myIdentity.tags[lens] && myIdentity.tags[lens].length > 0) ||
-          (myIdentity.texts[lens] && myIdentity.texts[lens].length > 0);
+    const applyPeer = (peerId: string, match: Match | null) => {
+      setMatches((prev) => [...prev.filter((m) => m.participant.id !== peerId), ...(match ? [match] : [])]);
+      setParticipants((prev) => {
+        if (!match) return prev.filter((p) => p.id !== peerId);
+        return prev.some((p) => p.id === peerId)
+          ? prev.map((p) => (p.id === peerId ? match.participant : p))
+          : [...prev, match.participant];
       });
-      setHasMyItems(myHas);
-      // Compute similarity against each other participant and gather lens scores
-      const simMap: Record<string, { overall: number; GIVEN: number | null; CHOSEN: number | null; CORE: number | null }> = {};
-      const matchList: { participant: ParticipantInfo; score: number | null }[] = [];
-      participantRows.forEach((p) => {
-        if (p.id === participantId) return;
-        const other = identities[p.id];
-        const { scores, scoreOverall } = computeSimilarity(myIdentity, other);
-        // Determine if each lens has data (either participant has items)
-        const lensScores: { GIVEN: number | null; CHOSEN: number | null; CORE: number | null } = {
-          GIVEN: null,
-          CHOSEN: null,
-          CORE: null,
-        };
-        (['GIVEN', 'CHOSEN', 'CORE'] as Lens[]).forEach((lens) => {
-          const aHasItems =
-            (myIdentity.tags[lens] && myIdentity.tags[lens].length > 0) ||
-            (myIdentity.texts[lens] && myIdentity.texts[lens].length > 0);
-          const bHasItems =
-            (other.tags[lens] && other.tags[lens].length > 0) ||
-            (other.texts[lens] && other.texts[lens].length > 0);
-          if (aHasItems || bHasItems) {
-            lensScores[lens] = scores[lens];
-          } else {
-            lensScores[lens] = null;
-          }
-        });
-        simMap[p.id] = { overall: scoreOverall, ...lensScores };
-        // Determine score for current scope
-        const selectedScore =
-          scope === 'overall'
-            ? scoreOverall
-            : lensScores[scope as Lens];
-        matchList.push({ participant: p, score: selectedScore });
+      refreshMap();
+    };
+    const refreshPeer = (peerId: string) =>
+      debounce(peerId, async () => {
+        const res = await authFetch(`/api/matches?${params({ peerId })}`);
+        const body = await res.json().catch(() => null);
+        if (res.ok && body) applyPeer(peerId, body.match);
       });
-      setSimilarities(simMap);
-      // Compute matches based on selected scope
-      updateMatches(matchList);
-      setLoading(false);
+
+    const unsubscribe = subscribeToSession(sessionId, (change) => {
+      if (change.table === 'sessions') {
+        // Revealing or hiding matches changes everything on the page
+        setReloadKey((key) => key + 1);
+      } else if (change.table === 'pairing_round') {
+        setRoundKey((key) => key + 1);
+      } else if (change.participantId === participantId) {
+        // Own edits (e.g. from another tab) shift every score
+        debounce(participantId, () => setReloadKey((key) => key + 1));
+      } else if (change.table === 'identity_item' && !change.participantId) {
+        // Deletes do not say whose item it was, so everything is refetched
+        debounce('reload', () => setReloadKey((key) => key + 1));
+      } else if (change.table === 'participant' && (!change.row || !change.row.is_visible)) {
+        if (knownIds.current.has(change.participantId)) applyPeer(change.participantId, null);
+      } else if (change.table === 'participant' || knownIds.current.has(change.participantId)) {
+        refreshPeer(change.participantId);
+      }
+    });
+    return () => {
+      unsubscribe();
+      timers.forEach((timer) => clearTimeout(timer));
     };
-    load();
   }, [participantId, sessionId, scope]);
 
-  /**
-   * Update top similar and top different lists based on the current
-   * scope. Entries with `null` scores are excluded. Called after
-   * similarities are recomputed or when the scope changes.
-   */
-  function updateMatches(list: { participant: ParticipantInfo; score: number | null }[]) {
-    const valid = list.filter((m) => m.score !== null) as { participant: ParticipantInfo; score: number }[];
-    // Sort descending for most similar
-    const sortedDesc = [...valid].sort((a, b) => b.score - a.score);
-    setTopSimilar(sortedDesc.slice(0, 3));
-    // Sort ascending for most different
-    const sortedAsc = [...valid].sort((a, b) => a.score - b.score);
-    setTopDifferent(sortedAsc.slice(0, 3));
-  }
+  // Refetched when the facilitator starts a round or changes the session
+  useEffect(() => {
+    if (!participantId) return;
+    authFetch('/api/partner')
+      .then((res) => res.json())
+      .then((body) => setRound(body.round ? { number: body.round.number, partners: body.partners } : null))
+      .catch(() => setRound(null));
+  }, [participantId, roundKey, reloadKey]);
+
+  // Match whose explanation is open, keyed by list and participant id
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const WhyToggle = ({ id }: { id: string }) => (
+    <button
+      onClick={() => setExpanded(expanded === id ? null : id)}
+      style={{ marginLeft: '0.5rem', border: 'none', background: 'none', color: '#2563eb', cursor: 'pointer', fontSize: '0.75rem' }}
+    >
+      {expanded === id ? 'Hide' : 'Why?'}
+    </button>
+  );
 
   if (!participantId || !sessionId) {
     return (
@@ -225,9 +245,23 @@ export default function MapPage() {
           </button>
         ))}
       </div>
+      {round && (
+        <p style={{ padding: '0.5rem 0.75rem', backgroundColor: '#eff6ff', borderRadius: '0.25rem', marginBottom: '1rem' }}>
+          Round {round.number}:{' '}
+          {round.partners.length > 0
+            ? `talk with ${round.partners.map((p) => p.display_name).join(' and ')}`
+            : 'you are not paired this round'}
+        </p>
+      )}
       {error && <p style={{ color: '#dc2626' }}>Error: {error}</p>}
       {loading ? (
         <p>Loading...</p>
+      ) : hiddenState ? (
+        <p style={{ color: '#6b7280' }}>
+          {hiddenState === 'ended'
+            ? 'This session has ended.'
+            : 'Matches will appear here once the facilitator reveals them.'}
+        </p>
       ) : (
         <>
           {/* Empty-lens notice */}
@@ -236,6 +270,10 @@ export default function MapPage() {
               Add at least one item in this lens to see lens‑specific matches.
             </p>
           )}
+          {/* 2D map */}
+          <section style={{ marginBottom: '1.5rem' }}>
+            <PeopleMap points={mapPoints} />
+          </section>
           {/* Top similar */}
           <section style={{ marginBottom: '1.5rem' }}>
             <h2 style={{ fontSize: '1.25rem', fontWeight: 600, marginBottom: '0.5rem' }}>Top 3 Similar</h2>
@@ -243,9 +281,11 @@ export default function MapPage() {
               <p style={{ color: '#6b7280', fontSize: '0.875rem' }}>Not enough data.</p>
             ) : (
               <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
-                {topSimilar.map(({ participant, score }) => (
-                  <li key={participant.id} style={{ marginBottom: '0.25rem' }}>
-                    {participant.display_name} — {Math.round((score ?? 0) * 100)}%
+                {topSimilar.map((match) => (
+                  <li key={match.participant.id} style={{ marginBottom: '0.25rem' }}>
+                    {match.participant.display_name} — {Math.round((match.score ?? 0) * 100)}%
+                    <WhyToggle id={`similar:${match.participant.id}`} />
+                    {expanded === `similar:${match.participant.id}` && <MatchDetail match={match} scope={scope} />}
                   </li>
                 ))}
               </ul>
@@ -258,9 +298,11 @@ export default function MapPage() {
               <p style={{ color: '#6b7280', fontSize: '0.875rem' }}>Not enough data.</p>
             ) : (
               <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
-                {topDifferent.map(({ participant, score }) => (
-                  <li key={participant.id} style={{ marginBottom: '0.25rem' }}>
-                    {participant.display_name} — {Math.round((1 - (score ?? 0)) * 100)}% different
+                {topDifferent.map((match) => (
+                  <li key={match.participant.id} style={{ marginBottom: '0.25rem' }}>
+                    {match.participant.display_name} — {Math.round((1 - (match.score ?? 0)) * 100)}% different
+                    <WhyToggle id={`different:${match.participant.id}`} />
+                    {expanded === `different:${match.participant.id}` && <MatchDetail match={match} scope={scope} />}
                   </li>
                 ))}
               </ul>
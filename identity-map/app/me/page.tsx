@@ -1,7 +1,8 @@
 'use client';
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabaseClient';
+import { authFetch, clearParticipantToken, currentUser, readParticipant } from '@/lib/authFetch';
+import { SessionState, canEditIdentity } from '@/lib/sessionState';
 
 type Lens = 'GIVEN' | 'CHOSEN' | 'CORE';
 
@@ -13,17 +14,28 @@ interface IdentityItem {
   weight: number;
 }
 
+function toIdentityItem(d: any): IdentityItem {
+  return {
+    id: d.id,
+    lens: d.lens as Lens,
+    type: d.type as 'tag' | 'text',
+    value: d.value,
+    weight: d.weight,
+  };
+}
+
 /**
  * My Identity page
  *
  * Provides forms for participants to add tags or text values under the
  * Given, Chosen, and Core lenses, assign weights (1–3), and delete
- * items. Data is persisted to Supabase via the identity_item table.
+ * items. Changes are saved through `/api/identity`, which validates
+ * them and keeps cached similarity scores up to date. Once the
+ * facilitator locks the session the items are shown read-only.
+ * Participants can download all of their data as JSON or delete it.
  *
- * Note: In Phase 2 we do not yet have authentication; instead,
- * participantId is loaded from localStorage. If none is found, a
- * random UUID will be used locally without persisting a participant
- * record. Later phases will replace this with a proper join flow.
+ * The participant comes from the token stored when joining; without
+ * one (or without a sign-in) the page redirects to `/join`.
  */
 export default function MyIdentityPage() {
   const router = useRouter();
@@ -38,18 +50,23 @@ export default function MyIdentityPage() {
     consent_given: boolean;
     session_id: string;
   } | null>(null);
+  // Lifecycle state of the participant's session; edits only while open
+  const [sessionState, setSessionState] = useState<SessionState | null>(null);
+  const editable = !sessionState || canEditIdentity(sessionState);
 
-  // Load participant and session ids from localStorage. Do not generate a random id here;
-  // participants should be created via the join page. If no id is found, redirect to join.
+  // Load the participant from the stored token. Participants are only
+  // created via the join page, so without a token or sign-in redirect there.
   useEffect(() => {
-    const pid = localStorage.getItem('participantId');
-    const sid = localStorage.getItem('sessionId');
-    if (!pid || !sid) {
-      // No participant/session means user must join first
+    const joined = readParticipant();
+    if (!joined) {
       router.push('/join');
       return;
     }
-    setParticipantId(pid);
+    currentUser().then((user) => {
+      // Participants are only readable by the user who joined as them
+      if (!user) router.push('/join');
+      else setParticipantId(joined.participantId);
+    });
   }, [router]);
 
   // Fetch participant info (display name, visibility, consent) and identity items
@@ -57,17 +74,14 @@ export default function MyIdentityPage() {
     if (!participantId) return;
     const loadParticipantAndItems = async () => {
       setLoading(true);
-      // Fetch participant info
-      const { data: pData, error: pErr } = await supabase
-        .from('participant')
-        .select('display_name, is_visible, consent_given, session_id')
-        .eq('id', participantId)
-        .single();
-      if (pErr || !pData) {
-        setError(pErr?.message ?? 'Failed to load participant');
+      const res = await authFetch('/api/participant');
+      const body = await res.json().catch(() => null);
+      if (!res.ok || !body) {
+        setError(body?.error ?? 'Failed to load participant');
         setLoading(false);
         return;
       }
+      const pData = body.participant;
       // If the participant has not given consent, redirect them back to join
       if (!pData.consent_given) {
         router.push('/join');
@@ -79,61 +93,42 @@ export default function MyIdentityPage() {
         consent_given: pData.consent_given,
         session_id: pData.session_id,
       });
-      // Load identity items
-      const { data: itemsData, error: itemsErr } = await supabase
-        .from('identity_item')
-        .select('*')
-        .eq('participant_id', participantId);
-      if (itemsErr) {
-        setError(itemsErr.message);
-        setLoading(false);
-        return;
-      }
-      setItems(
-        (itemsData ?? []).map((d) => ({
-          id: d.id,
-          lens: d.lens as Lens,
-          type: d.type as 'tag' | 'text',
-          value: d.value,
-          weight: d.weight,
-        }))
-      );
+      setSessionState(body.state);
+      setItems(body.items.map(toIdentityItem));
       setLoading(false);
     };
     loadParticipantAndItems();
   }, [participantId]);
 
+  /**
+   * Send a batch of item changes to `/api/identity`. On success the
+   * local list is replaced with the items returned by the server, which
+   * reflects deduplication and validation.
+   */
+  const saveItems = async (batch: Partial<IdentityItem>[]) => {
+    if (!participantId) return;
+    const res = await authFetch('/api/identity', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ items: batch }),
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body) {
+      if (res.status === 403 && body?.state) setSessionState(body.state);
+      setError(body?.details?.join(' ') ?? body?.error ?? 'Failed to save items');
+      return;
+    }
+    setError(null);
+    setItems(body.items.map(toIdentityItem));
+  };
+
   /**
    * Create a new identity item.
    */
   const addItem = async (lens: Lens, type: 'tag' | 'text', value: string) => {
     if (!participantId || !value.trim()) return;
     setLoading(true);
-    const { data, error } = await supabase
-      .from('identity_item')
-      .insert({
-        participant_id: participantId,
-        lens,
-        type,
-        value: value.trim(),
-        weight: 1,
-      })
-      .select()
-      .single();
-    if (error) {
-      setError(error.message);
-    } else if (data) {
-      setItems((prev) => [
-        ...prev,
-        {
-          id: data.id,
-          lens: data.lens as Lens,
-          type: data.type as 'tag' | 'text',
-          value: data.value,
-          weight: data.weight,
-        },
-      ]);
-    }
+    await saveItems([{ lens, type, value: value.trim(), weight: 1 }]);
     setLoading(false);
   };
 
@@ -142,23 +137,29 @@ export default function MyIdentityPage() {
    */
   const updateWeight = async (id: string, newWeight: number) => {
     setItems((prev) => prev.map((item) => (item.id === id ? { ...item, weight: newWeight } : item)));
-    await supabase
-      .from('identity_item')
-      .update({ weight: newWeight })
-      .eq('id', id);
+    await saveItems([{ id, weight: newWeight }]);
   };
 
   /**
-   * Delete an identity item.
+   * Delete identity items: a single item by id, or every item in a
+   * lens.
    */
-  const deleteItem = async (id: string) => {
-    setItems((prev) => prev.filter((item) => item.id !== id));
-    await supabase.from('identity_item').delete().eq('id', id);
+  const deleteItems = async (target: { itemId: string } | { lens: Lens }) => {
+    if (!participantId) return;
+    setItems((prev) =>
+      prev.filter((item) => ('itemId' in target ? item.id !== target.itemId : item.lens !== target.lens))
+    );
+    const params = new URLSearchParams(target);
+    const res = await authFetch(`/api/identity?${params.toString()}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      setError(body?.error ?? 'Failed to delete');
+    }
   };
 
   /**
    * Toggle visibility for the current participant. This updates the
-   * participant record in Supabase and local state. Visibility
+   * participant record through `/api/participant` and local state. Visibility
    * determines whether others can see you in People Map.
    */
   const toggleVisibility = async (newVisible: boolean) => {
@@ -167,26 +168,42 @@ export default function MyIdentityPage() {
     setParticipantInfo((prev) =>
       prev ? { ...prev, is_visible: newVisible } : prev
     );
-    await supabase
-      .from('participant')
-      .update({ is_visible: newVisible })
-      .eq('id', participantId);
+    await authFetch('/api/participant', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isVisible: newVisible }),
+    });
+  };
+
+  /**
+   * Download everything stored about the participant as JSON from
+   * `/api/export`. The route needs the auth header, so the file is
+   * fetched and saved from a blob URL.
+   */
+  const downloadMyData = async () => {
+    const res = await authFetch('/api/export');
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      setError(body?.error ?? 'Failed to export your data');
+      return;
+    }
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'my-identity-map-data.json';
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
   /**
    * Delete the current participant and all their data. After
-   * deletion, remove IDs from localStorage and redirect to join.
+   * deletion, forget the participant token and redirect to join.
    */
   const deleteMyData = async () => {
     if (!participantId) return;
-    // Delete participant; identity_item has ON DELETE CASCADE
-    await supabase.from('participant').delete().eq('id', participantId);
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('participantId');
-      // Keep sessionId so user can rejoin quickly; but if leaving
-      // session entirely, remove sessionId as well.
-      // localStorage.removeItem('sessionId');
-    }
+    // Deletes the participant with their identity items and cached scores
+    await authFetch('/api/participant', { method: 'DELETE' });
+    clearParticipantToken();
     router.push('/join');
   };
 
@@ -215,43 +232,55 @@ export default function MyIdentityPage() {
           style={{ fontSize: '1.25rem', fontWeight: 600, textTransform: 'capitalize', marginBottom: '0.5rem' }}
         >
           {`${lens.toLowerCase()} (${lensItems.length})`}
-        </h2>
-        <div style={{ marginBottom: '0.5rem' }}>
-          <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: 500 }}>Add tag</label>
-          <div style={{ display: 'flex', gap: '0.5rem' }}>
-            <input
-              type="text"
-              style={{ border: '1px solid #d1d5db', borderRadius: '0.25rem', padding: '0.25rem 0.5rem', flex: 1 }}
-              value={newValues[lens].tag}
-              onChange={(e) => handleInputChange(lens, 'tag', e.target.value)}
-            />
+          {editable && lensItems.length > 0 && (
             <button
-              style={{ backgroundColor: '#2563eb', color: 'white', padding: '0.25rem 0.75rem', borderRadius: '0.25rem' }}
-              onClick={() => handleAdd(lens, 'tag')}
-              disabled={loading || !newValues[lens].tag.trim()}
+              style={{ marginLeft: '0.75rem', color: '#dc2626', border: 'none', background: 'none', cursor: 'pointer', fontSize: '0.75rem' }}
+              onClick={() => deleteItems({ lens })}
             >
-              Add
+              Clear
             </button>
-          </div>
-        </div>
-        <div style={{ marginBottom: '0.5rem' }}>
-          <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: 500 }}>Add text</label>
-          <div style={{ display: 'flex', gap: '0.5rem' }}>
-            <input
-              type="text"
-              style={{ border: '1px solid #d1d5db', borderRadius: '0.25rem', padding: '0.25rem 0.5rem', flex: 1 }}
-              value={newValues[lens].text}
-              onChange={(e) => handleInputChange(lens, 'text', e.target.value)}
-            />
-            <button
-              style={{ backgroundColor: '#2563eb', color: 'white', padding: '0.25rem 0.75rem', borderRadius: '0.25rem' }}
-              onClick={() => handleAdd(lens, 'text')}
-              disabled={loading || !newValues[lens].text.trim()}
-            >
-              Add
-            </button>
-          </div>
-        </div>
+          )}
+        </h2>
+        {editable && (
+          <>
+            <div style={{ marginBottom: '0.5rem' }}>
+              <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: 500 }}>Add tag</label>
+              <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <input
+                  type="text"
+                  style={{ border: '1px solid #d1d5db', borderRadius: '0.25rem', padding: '0.25rem 0.5rem', flex: 1 }}
+                  value={newValues[lens].tag}
+                  onChange={(e) => handleInputChange(lens, 'tag', e.target.value)}
+                />
+                <button
+                  style={{ backgroundColor: '#2563eb', color: 'white', padding: '0.25rem 0.75rem', borderRadius: '0.25rem' }}
+                  onClick={() => handleAdd(lens, 'tag')}
+                  disabled={loading || !newValues[lens].tag.trim()}
+                >
+                  Add
+                </button>
+              </div>
+            </div>
+            <div style={{ marginBottom: '0.5rem' }}>
+              <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: 500 }}>Add text</label>
+              <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <input
+                  type="text"
+                  style={{ border: '1px solid #d1d5db', borderRadius: '0.25rem', padding: '0.25rem 0.5rem', flex: 1 }}
+                  value={newValues[lens].text}
+                  onChange={(e) => handleInputChange(lens, 'text', e.target.value)}
+                />
+                <button
+                  style={{ backgroundColor: '#2563eb', color: 'white', padding: '0.25rem 0.75rem', borderRadius: '0.25rem' }}
+                  onClick={() => handleAdd(lens, 'text')}
+                  disabled={loading || !newValues[lens].text.trim()}
+                >
+                  Add
+                </button>
+              </div>
+            </div>
+          </>
+        )}
         {lensItems.length === 0 ? (
           <p style={{ color: '#6b7280', fontSize: '0.875rem' }}>No items added yet.</p>
         ) : (
@@ -270,15 +299,18 @@ export default function MyIdentityPage() {
                   min={1}
                   max={3}
                   value={item.weight}
+                  disabled={!editable}
                   onChange={(e) => updateWeight(item.id, Number(e.target.value))}
                 />
-                <button
-                  style={{ color: '#dc2626', border: 'none', background: 'none', cursor: 'pointer' }}
-                  onClick={() => deleteItem(item.id)}
-                  title="Delete"
-                >
-                  ✕
-                </button>
+                {editable && (
+                  <button
+                    style={{ color: '#dc2626', border: 'none', background: 'none', cursor: 'pointer' }}
+                    onClick={() => deleteItems({ itemId: item.id })}
+                    title="Delete"
+                  >
+                    ✕
+                  </button>
+                )}
               </li>
             ))}
           </ul>
@@ -307,6 +339,19 @@ export default function MyIdentityPage() {
             />
             Visible to others
           </label>
+          <button
+            onClick={downloadMyData}
+            style={{
+              marginTop: '0.5rem',
+              marginRight: '0.5rem',
+              padding: '0.25rem 0.75rem',
+              border: '1px solid #d1d5db',
+              borderRadius: '0.25rem',
+              fontSize: '0.875rem',
+            }}
+          >
+            Download my data
+          </button>
           <button
             onClick={deleteMyData}
             style={{
@@ -322,6 +367,13 @@ export default function MyIdentityPage() {
           </button>
         </div>
       )}
+      {!editable && (
+        <p style={{ padding: '0.5rem 0.75rem', backgroundColor: '#f3f4f6', borderRadius: '0.25rem', marginBottom: '1rem' }}>
+          {sessionState === 'ended'
+            ? 'This session has ended. Your items can no longer be changed.'
+            : 'The facilitator has locked editing for this session.'}
+        </p>
+      )}
       {renderLensSection('GIVEN')}
       {renderLensSection('CHOSEN')}
       {renderLensSection('CORE')}
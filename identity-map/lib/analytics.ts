@@ -0,0 +1,119 @@
+import { Lens, TagCanonicaliser } from './similarity';
+import { LENSES } from './identity';
+
+/**
+ * Aggregate session analytics for the facilitator dashboard.
+ *
+ * Everything here is a count or a distribution; no participant ids or
+ * names leave this module. Tags are counted by the number of distinct
+ * participants using them (after canonicalisation, so synonyms count
+ * together) and only reported once at least `minGroupSize` people
+ * share a tag, so a rare tag cannot single someone out (k-anonymity).
+ * Suppressed tags are reported as a count only.
+ */
+
+// Smallest number of participants who must share a tag before it is shown
+export const DEFAULT_MIN_GROUP_SIZE = 3;
+
+const SCORE_BINS = 10;
+const TOP_TAGS_PER_LENS = 10;
+
+export interface AnalyticsItem {
+  participant_id: string;
+  lens: Lens;
+  type: 'tag' | 'text';
+  value: string;
+}
+
+export interface LensAnalytics {
+  tags: number;
+  texts: number;
+  // Participants with at least one item in the lens
+  participants: number;
+  // Tags shared by at least the minimum group size, most common first
+  topTags: { tag: string; participants: number }[];
+  // Distinct tags left out because too few participants share them
+  suppressedTags: number;
+}
+
+export interface SessionAnalytics {
+  minGroupSize: number;
+  participants: { total: number; visible: number; hidden: number; withItems: number };
+  lenses: Record<Lens, LensAnalytics>;
+  // Pairwise overall scores in equal-width bins over [0, 1]
+  scores: { pairs: number; mean: number | null; bins: { from: number; to: number; count: number }[] };
+}
+
+/**
+ * Compute the dashboard for one session from its participants, their
+ * identity items and the overall score of every pair. `topTagsPerLens`
+ * caps the shared tags listed per lens (exports pass `Infinity`).
+ */
+export function computeSessionAnalytics(
+  participants: { id: string; is_visible: boolean }[],
+  items: AnalyticsItem[],
+  pairScores: number[],
+  canonicaliser: TagCanonicaliser,
+  minGroupSize: number = DEFAULT_MIN_GROUP_SIZE,
+  topTagsPerLens: number = TOP_TAGS_PER_LENS,
+): SessionAnalytics {
+  const known = new Set(participants.map((p) => p.id));
+  const relevant = items.filter((item) => known.has(item.participant_id));
+  const visible = participants.filter((p) => p.is_visible).length;
+
+  const lenses = {} as Record<Lens, LensAnalytics>;
+  LENSES.forEach((lens) => {
+    const lensItems = relevant.filter((item) => item.lens === lens);
+    // Canonical tag key -> participants using it, and the raw spellings seen
+    const tagUsers = new Map<string, Set<string>>();
+    const spellings = new Map<string, Map<string, number>>();
+    lensItems
+      .filter((item) => item.type === 'tag')
+      .forEach((item) => {
+        const key = canonicaliser.key(item.value);
+        if (!key) return;
+        if (!tagUsers.has(key)) tagUsers.set(key, new Set());
+        tagUsers.get(key)!.add(item.participant_id);
+        const raw = item.value.trim().toLowerCase();
+        const seen = spellings.get(key) ?? new Map<string, number>();
+        seen.set(raw, (seen.get(raw) ?? 0) + 1);
+        spellings.set(key, seen);
+      });
+    const shared = Array.from(tagUsers.entries())
+      .filter(([, users]) => users.size >= minGroupSize)
+      .map(([key, users]) => {
+        // Synonym groups have a label; otherwise show the most used spelling
+        const common = Array.from(spellings.get(key)!.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0];
+        return { tag: canonicaliser.label(key) ?? common, participants: users.size };
+      })
+      .sort((a, b) => b.participants - a.participants || a.tag.localeCompare(b.tag));
+    lenses[lens] = {
+      tags: lensItems.filter((item) => item.type === 'tag').length,
+      texts: lensItems.filter((item) => item.type === 'text').length,
+      participants: new Set(lensItems.map((item) => item.participant_id)).size,
+      topTags: shared.slice(0, topTagsPerLens),
+      suppressedTags: tagUsers.size - shared.length,
+    };
+  });
+
+  const bins = Array.from({ length: SCORE_BINS }, (_, i) => ({ from: i / SCORE_BINS, to: (i + 1) / SCORE_BINS, count: 0 }));
+  pairScores.forEach((score) => {
+    bins[Math.min(Math.floor(score * SCORE_BINS), SCORE_BINS - 1)].count += 1;
+  });
+
+  return {
+    minGroupSize,
+    participants: {
+      total: participants.length,
+      visible,
+      hidden: participants.length - visible,
+      withItems: new Set(relevant.map((item) => item.participant_id)).size,
+    },
+    lenses,
+    scores: {
+      pairs: pairScores.length,
+      mean: pairScores.length > 0 ? pairScores.reduce((sum, s) => sum + s, 0) / pairScores.length : null,
+      bins,
+    },
+  };
+}
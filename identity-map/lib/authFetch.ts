@@ -0,0 +1,184 @@
+import { getSupabase, supabaseConfigured } from './supabaseClient';
+
+/**
+ * Client-side authentication. Participants sign in anonymously with
+ * Supabase when they join; the session is kept in localStorage by
+ * supabase-js, so later visits act as the same user. Joining also
+ * returns a signed participant token, stored here and sent with every
+ * API call so routes know which participant the user is acting as.
+ *
+ * Without Supabase configured, users sign in through `/api/auth/local`
+ * instead (in-memory storage backend only) and the returned session is
+ * kept in localStorage here.
+ */
+
+export const PARTICIPANT_TOKEN_HEADER = 'x-participant-token';
+const TOKEN_KEY = 'participantToken';
+const LOCAL_SESSION_KEY = 'localAuthSession';
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+}
+
+interface LocalSession {
+  accessToken: string;
+  user: AuthUser;
+}
+
+const localListeners = new Set<(user: AuthUser | null) => void>();
+
+function readLocalSession(): LocalSession | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_SESSION_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+}
+
+function storeLocalSession(session: LocalSession | null): void {
+  if (session) localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(session));
+  else localStorage.removeItem(LOCAL_SESSION_KEY);
+  localListeners.forEach((listener) => listener(session?.user ?? null));
+}
+
+/**
+ * Sign in through `/api/auth/local`, as the facilitator with `email`
+ * or as a new anonymous user.
+ */
+async function signInLocally(email?: string): Promise<LocalSession> {
+  const res = await fetch('/api/auth/local', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(email ? { email } : {}),
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok || !body?.accessToken) {
+    throw new Error(body?.error ?? 'Failed to sign in');
+  }
+  storeLocalSession(body);
+  return body;
+}
+
+/**
+ * The current access token, or null when signed out.
+ */
+async function accessToken(): Promise<string | null> {
+  if (!supabaseConfigured) return readLocalSession()?.accessToken ?? null;
+  const { data } = await getSupabase().auth.getSession();
+  return data.session?.access_token ?? null;
+}
+
+/**
+ * The signed-in user, or null when signed out.
+ */
+export async function currentUser(): Promise<AuthUser | null> {
+  if (!supabaseConfigured) return readLocalSession()?.user ?? null;
+  const { data } = await getSupabase().auth.getSession();
+  return data.session ? { id: data.session.user.id, email: data.session.user.email ?? null } : null;
+}
+
+/**
+ * Call `onChange` whenever the user signs in or out. Returns an
+ * unsubscribe function.
+ */
+export function onUserChange(onChange: (user: AuthUser | null) => void): () => void {
+  if (!supabaseConfigured) {
+    localListeners.add(onChange);
+    return () => {
+      localListeners.delete(onChange);
+    };
+  }
+  const { data } = getSupabase().auth.onAuthStateChange((_event, session) =>
+    onChange(session ? { id: session.user.id, email: session.user.email ?? null } : null),
+  );
+  return () => data.subscription.unsubscribe();
+}
+
+/**
+ * Start a facilitator sign-in for `email` and return a status message.
+ * With Supabase a magic link returning to the current page is sent;
+ * local sign-in takes effect immediately.
+ */
+export async function signInFacilitator(email: string): Promise<string> {
+  if (!supabaseConfigured) {
+    await signInLocally(email);
+    return 'Signed in.';
+  }
+  const { error } = await getSupabase().auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.href },
+  });
+  return error ? error.message : 'Check your email for a sign-in link.';
+}
+
+/**
+ * Sign the current user out.
+ */
+export async function signOut(): Promise<void> {
+  if (!supabaseConfigured) storeLocalSession(null);
+  else await getSupabase().auth.signOut();
+}
+
+/**
+ * Store the participant token returned by `/api/join`.
+ */
+export function storeParticipantToken(token: string): void {
+  localStorage.setItem(TOKEN_KEY, token);
+}
+
+/**
+ * Forget the participant, e.g. after deleting their data.
+ */
+export function clearParticipantToken(): void {
+  localStorage.removeItem(TOKEN_KEY);
+}
+
+/**
+ * Read the participant and session ids from the stored token without
+ * verifying it (only the server can). Returns null before joining.
+ */
+export function readParticipant(): { participantId: string; sessionId: string } | null {
+  if (typeof window === 'undefined') return null;
+  const token = localStorage.getItem(TOKEN_KEY);
+  if (!token) return null;
+  try {
+    const payload = token.split('.')[0].replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(payload));
+    return { participantId: claims.participantId, sessionId: claims.sessionId };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Return the signed-in user's id, signing in anonymously first when
+ * there is no session yet.
+ */
+export async function ensureSignedIn(): Promise<string> {
+  if (!supabaseConfigured) {
+    return (readLocalSession() ?? (await signInLocally())).user.id;
+  }
+  const { data } = await getSupabase().auth.getSession();
+  if (data.session) return data.session.user.id;
+  const { data: signIn, error } = await getSupabase().auth.signInAnonymously();
+  if (error || !signIn.user) {
+    throw new Error(error?.message ?? 'Failed to sign in');
+  }
+  return signIn.user.id;
+}
+
+/**
+ * `fetch` for the app's API routes, sending the current access token
+ * so the server acts as the signed-in user, and the participant token
+ * when there is one.
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const access = await accessToken();
+  const headers = new Headers(init.headers);
+  if (access) headers.set('Authorization', `Bearer ${access}`);
+  const token = typeof window !== 'undefined' ? localStorage.getItem(TOKEN_KEY) : null;
+  if (token) headers.set(PARTICIPANT_TOKEN_HEADER, token);
+  return fetch(input, { ...init, headers });
+}
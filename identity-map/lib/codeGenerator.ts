@@ -1,22 +1,99 @@
+import { randomInt } from 'crypto';
+
+// Uppercase letters and digits 2–9, without the ambiguous 0, O, 1 and I
+export const SESSION_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// Characters people type for ones the alphabet leaves out: codes never
+// contain 0, O, 1 or I, so these can only be misreadings of the
+// nearest lookalike that it does contain.
+const LOOKALIKES: Record<string, string> = {
+  '0': 'Q',
+  O: 'Q',
+  '1': 'L',
+  I: 'L',
+};
+
 /**
  * Generate a session join code consisting of easily distinguishable
  * characters. This avoids ambiguous characters like 0, O, 1, I and
  * uses uppercase letters and digits 2–9. The default length is 6
- * characters, but it can be configured to generate up to 8.
+ * characters, but it can be configured to generate up to 8. Characters
+ * are drawn from the system CSPRNG, so codes cannot be predicted from
+ * earlier ones.
+ *
+ * With `checksum`, the last character is a Luhn mod N check character
+ * over the others (see `hasValidChecksum`), which catches any single
+ * mistyped character and most swapped neighbours. The code keeps the
+ * requested length.
  *
  * @param length The desired length of the code (between 6 and 8)
  */
-export function generateSessionCode(length = 6): string {
-  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export function generateSessionCode(length = 6, { checksum = false }: { checksum?: boolean } = {}): string {
   const safeLength = Math.min(Math.max(length, 6), 8);
   let code = '';
-  for (let i = 0; i < safeLength; i++) {
-    code += alphabet.charAt(Math.floor(Math.random() * alphabet.length));
+  for (let i = 0; i < safeLength - (checksum ? 1 : 0); i++) {
+    code += SESSION_CODE_ALPHABET.charAt(randomInt(SESSION_CODE_ALPHABET.length));
   }
-  return code;
+  return checksum ? code + checkCharacter(code) : code;
 }
 
 // Alias `generateCode` to `generateSessionCode` for backwards compatibility.
 // Some components (e.g. the admin page) import generateCode directly. Exporting
 // this alias prevents module resolution errors without changing all imports.
-export const generateCode = generateSessionCode;
\ No newline at end of file
+export const generateCode = generateSessionCode;
+
+/**
+ * Sum the positions of `chars` in `SESSION_CODE_ALPHABET` the Luhn
+ * mod N way: every second one, counted from the right, is doubled and
+ * its base-N digits added. Doubling starts with the last character when
+ * `doubleLast` is set, otherwise with the one before it.
+ */
+function luhnSum(chars: string, doubleLast: boolean): number {
+  const n = SESSION_CODE_ALPHABET.length;
+  let factor = doubleLast ? 2 : 1;
+  let sum = 0;
+  for (let i = chars.length - 1; i >= 0; i--) {
+    const addend = factor * SESSION_CODE_ALPHABET.indexOf(chars[i]);
+    sum += Math.floor(addend / n) + (addend % n);
+    factor = factor === 2 ? 1 : 2;
+  }
+  return sum;
+}
+
+/**
+ * The Luhn mod N check character for a code body.
+ */
+export function checkCharacter(body: string): string {
+  const n = SESSION_CODE_ALPHABET.length;
+  return SESSION_CODE_ALPHABET.charAt((n - (luhnSum(body, true) % n)) % n);
+}
+
+/**
+ * Whether a normalised code ends in a valid check character.
+ */
+export function hasValidChecksum(code: string): boolean {
+  if (code.length < 2 || code.split('').some((ch) => !SESSION_CODE_ALPHABET.includes(ch))) return false;
+  return luhnSum(code, false) % SESSION_CODE_ALPHABET.length === 0;
+}
+
+/**
+ * Whether new session codes carry a check character, configured with
+ * `SESSION_CODE_CHECKSUM=true`.
+ */
+export function sessionCodeChecksumEnabled(): boolean {
+  return ['1', 'true', 'yes'].includes((process.env.SESSION_CODE_CHECKSUM ?? '').toLowerCase());
+}
+
+/**
+ * Normalise a code as typed by a participant before looking it up:
+ * fold full-width and other compatibility forms, uppercase, drop
+ * spaces, dashes and other separators, and map lookalikes of excluded
+ * characters onto the alphabet (e.g. `abc-d0e` becomes `ABCDQE`).
+ */
+export function normalizeSessionCode(input: string): string {
+  return input
+    .normalize('NFKC')
+    .toUpperCase()
+    .replace(/[\s\-_.·]+/g, '')
+    .replace(/[01OI]/g, (ch) => LOOKALIKES[ch]);
+}
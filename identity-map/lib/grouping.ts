@@ -0,0 +1,158 @@
+import { LENSES } from './identity';
+import type { Lens } from './similarity';
+import type { PairResult } from './matches';
+
+/**
+ * Affinity groups for workshops.
+ *
+ * Splits participants into k groups of near-equal size from a pairwise
+ * distance matrix (typically `1 - scoreOverall`). In 'similar' mode the
+ * groups gather people who are close (k-medoids style); in 'diverse'
+ * mode each group mixes people who are far apart (anti-clustering).
+ * Both start from a balanced partition and improve it by swapping pairs
+ * of people between groups, so group sizes never differ by more than
+ * one and the same matrix always yields the same groups.
+ */
+
+export type GroupingMode = 'similar' | 'diverse';
+
+export const GROUPING_MODES: GroupingMode[] = ['similar', 'diverse'];
+
+const MAX_SWAP_PASSES = 20;
+const MAX_SHARED_TAGS = 8;
+
+export interface GroupSharedTag {
+  lens: Lens;
+  tag: string;
+  // Number of group members who share the tag with someone else in the group
+  members: number;
+}
+
+/**
+ * Target sizes for `n` people in `k` groups: the first `n % k` groups
+ * get one extra person.
+ */
+function groupSizes(n: number, k: number): number[] {
+  return Array.from({ length: k }, (_, g) => Math.floor(n / k) + (g < n % k ? 1 : 0));
+}
+
+/**
+ * Pick `k` medoids greedily: first the most central person, then each
+ * time the person who most reduces the total distance to the nearest
+ * medoid.
+ */
+function chooseMedoids(distances: number[][], k: number): number[] {
+  const n = distances.length;
+  const total = (i: number) => distances[i].reduce((sum, d) => sum + d, 0);
+  const medoids = [Array.from({ length: n }, (_, i) => i).reduce((best, i) => (total(i) < total(best) ? i : best), 0)];
+  const nearest = distances[medoids[0]].slice();
+  while (medoids.length < k) {
+    let best = -1;
+    let bestGain = -1;
+    for (let c = 0; c < n; c++) {
+      if (medoids.includes(c)) continue;
+      const gain = nearest.reduce((sum, d, i) => sum + Math.max(d - distances[c][i], 0), 0);
+      if (gain > bestGain) {
+        best = c;
+        bestGain = gain;
+      }
+    }
+    medoids.push(best);
+    distances[best].forEach((d, i) => {
+      nearest[i] = Math.min(nearest[i], d);
+    });
+  }
+  return medoids;
+}
+
+/**
+ * Initial balanced partition. Similar mode fills each medoid's group
+ * with its closest unassigned people; diverse mode deals people out
+ * round-robin.
+ */
+function initialAssignment(distances: number[][], k: number, mode: GroupingMode): number[] {
+  const n = distances.length;
+  if (mode === 'diverse') {
+    return Array.from({ length: n }, (_, i) => i % k);
+  }
+  const sizes = groupSizes(n, k);
+  const medoids = chooseMedoids(distances, k);
+  const assignment = new Array(n).fill(-1);
+  const counts = new Array(k).fill(0);
+  const candidates: { person: number; group: number; distance: number }[] = [];
+  medoids.forEach((m, group) => {
+    for (let person = 0; person < n; person++) {
+      candidates.push({ person, group, distance: person === m ? -1 : distances[m][person] });
+    }
+  });
+  candidates.sort((x, y) => x.distance - y.distance || x.group - y.group || x.person - y.person);
+  candidates.forEach(({ person, group }) => {
+    if (assignment[person] !== -1 || counts[group] >= sizes[group]) return;
+    assignment[person] = group;
+    counts[group]++;
+  });
+  return assignment;
+}
+
+/**
+ * Partition people (the rows of `distances`) into `k` groups. Returns
+ * the groups as lists of row indices; `k` is clamped to [1, n].
+ */
+export function partitionIntoGroups(distances: number[][], k: number, mode: GroupingMode): number[][] {
+  const n = distances.length;
+  if (n === 0) return [];
+  const groupCount = Math.min(Math.max(Math.floor(k), 1), n);
+  const assignment = initialAssignment(distances, groupCount, mode);
+  // Within-group distance of `person` to members of `group`
+  const distanceTo = (person: number, group: number) =>
+    assignment.reduce((sum, g, other) => (g === group && other !== person ? sum + distances[person][other] : sum), 0);
+  // Similar mode minimises total within-group distance, diverse mode maximises it
+  const sign = mode === 'similar' ? 1 : -1;
+
+  for (let pass = 0; pass < MAX_SWAP_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const gi = assignment[i];
+        const gj = assignment[j];
+        if (gi === gj) continue;
+        const delta =
+          distanceTo(i, gj) - distanceTo(i, gi) + distanceTo(j, gi) - distanceTo(j, gj) - 2 * distances[i][j];
+        if (sign * delta < -1e-9) {
+          assignment[i] = gj;
+          assignment[j] = gi;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  const groups: number[][] = Array.from({ length: groupCount }, () => []);
+  assignment.forEach((g, person) => groups[g].push(person));
+  return groups;
+}
+
+/**
+ * Tags shared within a group, taken from the per-lens `overlapTags` of
+ * the pair explanations between its members. Tags shared by more
+ * members come first.
+ */
+export function groupSharedTags(pairs: { aId: string; bId: string; result: PairResult }[]): GroupSharedTag[] {
+  const holders = new Map<string, { lens: Lens; tag: string; ids: Set<string> }>();
+  pairs.forEach(({ aId, bId, result }) => {
+    LENSES.forEach((lens) => {
+      (result.explanations[lens]?.overlapTags ?? []).forEach((tag) => {
+        const key = `${lens}:${tag}`;
+        const entry = holders.get(key) ?? { lens, tag, ids: new Set<string>() };
+        entry.ids.add(aId);
+        entry.ids.add(bId);
+        holders.set(key, entry);
+      });
+    });
+  });
+  return Array.from(holders.values())
+    .map(({ lens, tag, ids }) => ({ lens, tag, members: ids.size }))
+    .sort((x, y) => y.members - x.members || x.tag.localeCompare(y.tag))
+    .slice(0, MAX_SHARED_TAGS);
+}
@@ -0,0 +1,253 @@
+import { Identity, Lens, TagCanonicaliser, createTagCanonicaliser } from './similarity';
+
+/**
+ * Helpers for turning `identity_item` rows into the `Identity` shape
+ * consumed by the similarity functions, and for validating items
+ * submitted by participants. Shared by the API routes so every server
+ * path builds and checks identities the same way.
+ */
+
+export const LENSES: Lens[] = ['GIVEN', 'CHOSEN', 'CORE'];
+
+export const MAX_TAG_LENGTH = 40;
+export const MAX_TEXT_LENGTH = 280;
+export const MAX_LABEL_LENGTH = 60;
+export const MAX_ITEMS_PER_LENS = 20;
+export const MAX_BATCH_SIZE = 50;
+
+/**
+ * A row of the `identity_item` table as returned by Supabase. Only
+ * the columns needed to build an identity are required.
+ */
+export interface IdentityItemRow {
+  id?: string;
+  participant_id: string;
+  lens: Lens;
+  type: 'tag' | 'text';
+  label?: string | null;
+  value: string;
+  weight: number;
+}
+
+/**
+ * Create an identity with no tags or texts in any lens.
+ */
+export function emptyIdentity(): Identity {
+  return {
+    tags: { GIVEN: [], CHOSEN: [], CORE: [] },
+    texts: { GIVEN: [], CHOSEN: [], CORE: [] },
+  };
+}
+
+/**
+ * Group identity item rows by participant. Every id in
+ * `participantIds` gets an entry, even when it has no rows, so
+ * callers can always look up an identity for a known participant.
+ */
+export function buildIdentities(participantIds: string[], rows: IdentityItemRow[]): Record<string, Identity> {
+  const identities: Record<string, Identity> = {};
+  participantIds.forEach((id) => {
+    identities[id] = emptyIdentity();
+  });
+  rows.forEach((row) => {
+    const identity = identities[row.participant_id];
+    if (!identity) return;
+    if (row.type === 'tag') {
+      identity.tags[row.lens].push({ value: row.value, weight: row.weight });
+    } else {
+      identity.texts[row.lens].push(row.value);
+    }
+  });
+  return identities;
+}
+
+/**
+ * Whether an identity has at least one tag or text in the given lens.
+ */
+export function hasLensItems(identity: Identity, lens: Lens): boolean {
+  return (identity.tags[lens]?.length ?? 0) > 0 || (identity.texts[lens]?.length ?? 0) > 0;
+}
+
+/**
+ * An identity item as submitted to `POST /api/identity`. Items with
+ * an `id` update an existing item; fields left out keep their current
+ * values. Items without an `id` are inserted and must provide `lens`,
+ * `type` and `value`; `weight` defaults to 1.
+ */
+export interface IdentityItemInput {
+  id?: string;
+  lens?: Lens;
+  type?: 'tag' | 'text';
+  label?: string | null;
+  value?: string;
+  weight?: number;
+}
+
+/**
+ * The writes needed to apply a batch, as computed by
+ * `planIdentityBatch`.
+ */
+export interface IdentityBatchPlan {
+  inserts: Omit<IdentityItemRow, 'id'>[];
+  updates: (IdentityItemRow & { id: string })[];
+  errors: string[];
+}
+
+/**
+ * Check the shape of a single submitted item. Returns an error
+ * message, or null when the item is well formed. Whether the item is
+ * complete enough to insert is checked later, once it has been merged
+ * with any existing item.
+ */
+function checkItemShape(raw: any, index: number): string | null {
+  if (!raw || typeof raw !== 'object') return `Item ${index}: must be an object`;
+  if (raw.id !== undefined && typeof raw.id !== 'string') return `Item ${index}: id must be a string`;
+  if (raw.lens !== undefined && !LENSES.includes(raw.lens)) return `Item ${index}: lens must be one of ${LENSES.join(', ')}`;
+  if (raw.type !== undefined && raw.type !== 'tag' && raw.type !== 'text') return `Item ${index}: type must be tag or text`;
+  if (raw.value !== undefined && typeof raw.value !== 'string') return `Item ${index}: value must be a string`;
+  if (raw.label !== undefined && raw.label !== null && typeof raw.label !== 'string') {
+    return `Item ${index}: label must be a string`;
+  }
+  if (raw.weight !== undefined && (!Number.isInteger(raw.weight) || raw.weight < 1 || raw.weight > 3)) {
+    return `Item ${index}: weight must be an integer between 1 and 3`;
+  }
+  return null;
+}
+
+/**
+ * Check a complete item (after merging with any existing row) against
+ * the value and label length limits.
+ */
+function checkItemLimits(item: Omit<IdentityItemRow, 'id'>, index: number): string | null {
+  if (!item.value) return `Item ${index}: value must not be empty`;
+  const maxLength = item.type === 'tag' ? MAX_TAG_LENGTH : MAX_TEXT_LENGTH;
+  if (item.value.length > maxLength) return `Item ${index}: ${item.type} must be at most ${maxLength} characters`;
+  if (item.label && item.label.length > MAX_LABEL_LENGTH) {
+    return `Item ${index}: label must be at most ${MAX_LABEL_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Work out the inserts and updates needed to apply a batch of
+ * submitted items on top of a participant's `existing` items.
+ *
+ * Tags are deduplicated per lens using `canonicaliser`, which should be
+ * the one `weightedJaccard` scores the session with (synonyms
+ * included), keeping the highest weight: a new tag matching an existing
+ * one raises the existing item's weight instead of adding a duplicate.
+ * Identical texts in a lens are collapsed the same way, and an update
+ * that would make an item duplicate another in its lens is rejected.
+ * Per-lens item caps are enforced on the result. When `errors` is
+ * non-empty no writes should be made.
+ */
+export function planIdentityBatch(
+  participantId: string,
+  existing: IdentityItemRow[],
+  batch: unknown,
+  canonicaliser: TagCanonicaliser = createTagCanonicaliser(),
+): IdentityBatchPlan {
+  const plan: IdentityBatchPlan = { inserts: [], updates: [], errors: [] };
+  if (!Array.isArray(batch) || batch.length === 0) {
+    plan.errors.push('items must be a non-empty array');
+    return plan;
+  }
+  if (batch.length > MAX_BATCH_SIZE) {
+    plan.errors.push(`At most ${MAX_BATCH_SIZE} items can be submitted at once`);
+    return plan;
+  }
+  const byId = new Map(existing.filter((row) => row.id).map((row) => [row.id as string, row]));
+  const dedupeKey = (item: { lens: Lens; type: string; value: string }) =>
+    `${item.lens}:${item.type}:${item.type === 'tag' ? canonicaliser.key(item.value) : item.value.trim()}`;
+  const existingByKey = new Map(existing.map((row) => [dedupeKey(row), row]));
+  const insertsByKey = new Map<string, Omit<IdentityItemRow, 'id'>>();
+  const updatesById = new Map<string, IdentityItemRow & { id: string }>();
+  // Index in `batch` of the last submitted change to each updated item
+  const updateIndex = new Map<string, number>();
+
+  batch.forEach((raw: IdentityItemInput, index) => {
+    const shapeError = checkItemShape(raw, index);
+    if (shapeError) {
+      plan.errors.push(shapeError);
+      return;
+    }
+    if (raw.id) {
+      const current = updatesById.get(raw.id) ?? byId.get(raw.id);
+      if (!current) {
+        plan.errors.push(`Item ${index}: no item with id ${raw.id}`);
+        return;
+      }
+      // Lens and type are fixed once an item exists
+      const merged = {
+        ...current,
+        id: raw.id,
+        value: raw.value !== undefined ? raw.value.trim() : current.value,
+        label: raw.label !== undefined ? raw.label : current.label ?? null,
+        weight: raw.weight ?? current.weight,
+      };
+      const limitError = checkItemLimits(merged, index);
+      if (limitError) {
+        plan.errors.push(limitError);
+        return;
+      }
+      updatesById.set(raw.id, merged);
+      updateIndex.set(raw.id, index);
+      return;
+    }
+    if (!raw.lens || !raw.type || raw.value === undefined) {
+      plan.errors.push(`Item ${index}: lens, type and value are required for new items`);
+      return;
+    }
+    const item = {
+      participant_id: participantId,
+      lens: raw.lens,
+      type: raw.type,
+      label: raw.label ?? null,
+      value: raw.value.trim(),
+      weight: raw.weight ?? 1,
+    };
+    const limitError = checkItemLimits(item, index);
+    if (limitError) {
+      plan.errors.push(limitError);
+      return;
+    }
+    const key = dedupeKey(item);
+    const match = existingByKey.get(key);
+    if (match?.id) {
+      // Raise the weight of the existing item rather than duplicating it
+      const current = updatesById.get(match.id) ?? { ...match, id: match.id };
+      updatesById.set(match.id, { ...current, weight: Math.max(current.weight, item.weight) });
+      return;
+    }
+    const pending = insertsByKey.get(key);
+    insertsByKey.set(key, pending ? { ...pending, weight: Math.max(pending.weight, item.weight) } : item);
+  });
+
+  plan.inserts = Array.from(insertsByKey.values());
+  plan.updates = Array.from(updatesById.values());
+
+  // Edits can turn an item into a duplicate of another, so the final set
+  // is checked too. Only submitted edits are reported, so duplicates
+  // stored before this rule do not block unrelated changes.
+  const finalByKey = new Map<string, string | null>();
+  const finalItems: { id: string | null; row: Omit<IdentityItemRow, 'id'> }[] = [
+    ...existing.map((row) => ({ id: row.id ?? null, row: (row.id && updatesById.get(row.id)) || row })),
+    ...plan.inserts.map((row) => ({ id: null, row })),
+  ];
+  finalItems.forEach(({ id, row }) => {
+    const key = dedupeKey(row);
+    if (finalByKey.has(key)) {
+      const clash = [id, finalByKey.get(key)].find((candidate) => candidate && updateIndex.has(candidate));
+      if (clash) plan.errors.push(`Item ${updateIndex.get(clash)}: ${row.lens} already has this ${row.type}`);
+    } else {
+      finalByKey.set(key, id);
+    }
+  });
+  LENSES.forEach((lens) => {
+    const count = existing.filter((row) => row.lens === lens).length + plan.inserts.filter((row) => row.lens === lens).length;
+    if (count > MAX_ITEMS_PER_LENS) {
+      plan.errors.push(`${lens} can have at most ${MAX_ITEMS_PER_LENS} items`);
+    }
+  });
+  return plan;
+}
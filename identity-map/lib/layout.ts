@@ -0,0 +1,67 @@
+/**
+ * 2D layout for the People Map.
+ *
+ * Places participants in the plane so that Euclidean distances
+ * approximate a distance matrix (typically `1 - scoreOverall`) using
+ * classical multidimensional scaling. Eigenvectors are found with
+ * power iteration from a fixed start vector, so the same matrix always
+ * produces the same layout.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+const POWER_ITERATIONS = 500;
+
+/**
+ * Find the eigenvector with the largest (most positive) eigenvalue of
+ * a symmetric matrix by power iteration. The matrix is shifted by a
+ * Gershgorin bound first so negative eigenvalues, common when the
+ * distances are not Euclidean, cannot dominate.
+ */
+function topEigen(matrix: number[][]): { vector: number[]; value: number } {
+  const n = matrix.length;
+  const shift = Math.max(...matrix.map((row) => row.reduce((sum, m) => sum + Math.abs(m), 0)));
+  const multiply = (v: number[]) => matrix.map((row, i) => row.reduce((sum, m, j) => sum + m * v[j], 0) + shift * v[i]);
+  // Deterministic, non-degenerate start vector
+  let vector = Array.from({ length: n }, (_, i) => 1 + ((i * 7919) % 13) / 13);
+  for (let iter = 0; iter < POWER_ITERATIONS; iter++) {
+    const next = multiply(vector);
+    const norm = Math.sqrt(next.reduce((sum, v) => sum + v * v, 0));
+    if (norm === 0) return { vector: new Array(n).fill(0), value: 0 };
+    vector = next.map((v) => v / norm);
+  }
+  // Rayleigh quotient of the unshifted matrix
+  const mv = matrix.map((row) => row.reduce((sum, m, j) => sum + m * vector[j], 0));
+  return { vector, value: mv.reduce((sum, v, i) => sum + v * vector[i], 0) };
+}
+
+/**
+ * Classical MDS: double-centre the squared distances and project onto
+ * the top two eigenvectors. Coordinates are scaled to fit within
+ * [-1, 1] on both axes. Returns one point per row of `distances`.
+ */
+export function classicalMds(distances: number[][]): Point[] {
+  const n = distances.length;
+  if (n === 0) return [];
+  if (n === 1) return [{ x: 0, y: 0 }];
+  const squared = distances.map((row) => row.map((d) => d * d));
+  const rowMeans = squared.map((row) => row.reduce((sum, v) => sum + v, 0) / n);
+  const grandMean = rowMeans.reduce((sum, v) => sum + v, 0) / n;
+  // B = -1/2 * J D^2 J
+  let b = squared.map((row, i) => row.map((v, j) => -0.5 * (v - rowMeans[i] - rowMeans[j] + grandMean)));
+
+  const axes: number[][] = [];
+  for (let k = 0; k < 2; k++) {
+    const { vector, value } = topEigen(b);
+    const scale = Math.sqrt(Math.max(value, 0));
+    axes.push(vector.map((v) => v * scale));
+    // Deflate so the next iteration finds the following eigenvector
+    b = b.map((row, i) => row.map((m, j) => m - value * vector[i] * vector[j]));
+  }
+  const points = Array.from({ length: n }, (_, i) => ({ x: axes[0][i], y: axes[1][i] }));
+  const extent = Math.max(...points.map((p) => Math.max(Math.abs(p.x), Math.abs(p.y))));
+  return extent === 0 ? points : points.map((p) => ({ x: p.x / extent, y: p.y / extent }));
+}
@@ -0,0 +1,50 @@
+import { storageBackend } from './repository';
+import { readToken, signToken } from './participantToken';
+
+/**
+ * Local sign-in for development with the in-memory storage backend.
+ *
+ * With `STORAGE_BACKEND=memory` the app runs without a Supabase
+ * project. Pages then sign in through `/api/auth/local` instead of
+ * Supabase Auth (see `lib/authFetch.ts`): participants get a new
+ * anonymous user id, facilitators sign in with any email, unverified.
+ * Access tokens are `local.` followed by claims signed like participant
+ * tokens (see `lib/participantToken.ts`). The route and `authenticate`
+ * reject them with the Supabase backend. Server only.
+ */
+
+export const LOCAL_TOKEN_PREFIX = 'local.';
+
+export interface LocalUserClaims {
+  userId: string;
+  // Null for anonymous participants
+  email: string | null;
+  // Issue time, seconds since the epoch
+  iat: number;
+}
+
+/**
+ * Whether local sign-in is accepted, i.e. the in-memory backend is
+ * selected.
+ */
+export function localAuthEnabled(): boolean {
+  return storageBackend() === 'memory';
+}
+
+/**
+ * Sign claims into a local access token.
+ */
+export function signLocalUserToken(claims: LocalUserClaims, secret?: string): string {
+  return LOCAL_TOKEN_PREFIX + signToken(claims, secret);
+}
+
+/**
+ * Verify a local access token and return its claims, or null when it
+ * is not a valid local token.
+ */
+export function verifyLocalUserToken(token: string, secret?: string): LocalUserClaims | null {
+  if (!token.startsWith(LOCAL_TOKEN_PREFIX)) return null;
+  const claims = readToken(token.slice(LOCAL_TOKEN_PREFIX.length), secret);
+  if (typeof claims?.userId !== 'string' || (claims.email !== null && typeof claims.email !== 'string')) return null;
+  return claims as unknown as LocalUserClaims;
+}
@@ -0,0 +1,140 @@
+import {
+  computeSimilarity,
+  DEFAULT_SIMILARITY_CONFIG,
+  Identity,
+  Lens,
+  LensSimilarityResult,
+  SimilarityConfig,
+  SimilarityCorpus,
+} from './similarity';
+import { LENSES, hasLensItems } from './identity';
+
+/**
+ * Ranking of similarity matches for a single participant. These
+ * functions are pure: the API route loads identities from Supabase
+ * and passes them in, so the ranking logic can be reused (and
+ * tested) without a database.
+ */
+
+export type MatchScope = 'overall' | Lens;
+
+export interface ParticipantSummary {
+  id: string;
+  display_name: string;
+}
+
+/**
+ * Scores between two participants. A lens score is `null` when
+ * neither participant has any items in that lens, so the UI can tell
+ * "no data" apart from "nothing in common".
+ */
+export interface PairScores {
+  overall: number;
+  GIVEN: number | null;
+  CHOSEN: number | null;
+  CORE: number | null;
+}
+
+export interface PairResult {
+  scores: PairScores;
+  explanations: Record<Lens, LensSimilarityResult>;
+}
+
+export interface Match extends PairResult {
+  participant: ParticipantSummary;
+  score: number | null;
+}
+
+/**
+ * Parse the `scope` query parameter. Accepts `overall`, `given`,
+ * `chosen` and `core` in any case and defaults to `overall` when the
+ * parameter is missing. Returns null for unknown values.
+ */
+export function parseScope(raw: string | null): MatchScope | null {
+  if (!raw) return 'overall';
+  const lower = raw.trim().toLowerCase();
+  if (lower === 'overall') return 'overall';
+  const lens = lower.toUpperCase() as Lens;
+  return LENSES.includes(lens) ? lens : null;
+}
+
+/**
+ * Compute the scores and explanations between `self` and `other`,
+ * nulling out lenses where neither side has data.
+ */
+export function scorePair(
+  self: Identity,
+  other: Identity,
+  config: SimilarityConfig = DEFAULT_SIMILARITY_CONFIG,
+  corpus?: SimilarityCorpus,
+): PairResult {
+  const { scores, scoreOverall, explanations } = computeSimilarity(self, other, config, corpus);
+  const pair: PairScores = { overall: scoreOverall, GIVEN: null, CHOSEN: null, CORE: null };
+  LENSES.forEach((lens) => {
+    if (hasLensItems(self, lens) || hasLensItems(other, lens)) {
+      pair[lens] = scores[lens];
+    }
+  });
+  return { scores: pair, explanations };
+}
+
+/**
+ * Pick the score used for ranking within a scope.
+ */
+export function scoreForScope(scores: PairScores, scope: MatchScope): number | null {
+  return scope === 'overall' ? scores.overall : scores[scope];
+}
+
+/**
+ * Build matches for `selfId` from already computed pair results keyed
+ * by the other participant's id (e.g. read from the similarity
+ * cache). Participants without a pair result are skipped.
+ */
+export function matchesFromPairs(
+  selfId: string,
+  participants: ParticipantSummary[],
+  pairs: Record<string, PairResult>,
+  scope: MatchScope,
+): Match[] {
+  const matches: Match[] = [];
+  participants.forEach((participant) => {
+    if (participant.id === selfId) return;
+    const pair = pairs[participant.id];
+    if (!pair) return;
+    matches.push({ participant, score: scoreForScope(pair.scores, scope), ...pair });
+  });
+  return matches;
+}
+
+/**
+ * Score `selfId` against every other participant in `participants`.
+ * Participants without an identity entry are skipped.
+ */
+export function computeMatches(
+  selfId: string,
+  participants: ParticipantSummary[],
+  identities: Record<string, Identity>,
+  scope: MatchScope,
+  config: SimilarityConfig = DEFAULT_SIMILARITY_CONFIG,
+  corpus?: SimilarityCorpus,
+): Match[] {
+  const self = identities[selfId];
+  const pairs: Record<string, PairResult> = {};
+  participants.forEach((participant) => {
+    const other = identities[participant.id];
+    if (participant.id === selfId || !other) return;
+    pairs[participant.id] = scorePair(self, other, config, corpus);
+  });
+  return matchesFromPairs(selfId, participants, pairs, scope);
+}
+
+/**
+ * Return the `limit` most similar and most different matches. Matches
+ * with a `null` score for the scope are excluded from both lists.
+ */
+export function rankMatches(matches: Match[], limit: number): { topSimilar: Match[]; topDifferent: Match[] } {
+  const valid = matches.filter((m) => m.score !== null);
+  const topSimilar = [...valid].sort((a, b) => (b.score as number) - (a.score as number)).slice(0, limit);
+  const topDifferent = [...valid].sort((a, b) => (a.score as number) - (b.score as number)).slice(0, limit);
+  return { topSimilar, topDifferent };
+}
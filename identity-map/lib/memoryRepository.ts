@@ -0,0 +1,243 @@
+import { randomUUID } from 'crypto';
+import type {
+  IdentityItemRecord,
+  PairingRoundRecord,
+  ParticipantRecord,
+  Repository,
+  SessionRecord,
+  SimilarityCacheRow,
+} from './repository';
+
+/**
+ * In-memory repository for local development and tests. Data lives in
+ * the server process and is lost on restart. It enforces the same
+ * unique constraints and cascading deletes as `supabase/schema.sql`,
+ * but has no row-level security. Records are copied on the way in and
+ * out, so callers cannot change stored data by mutating them.
+ */
+
+const copy = <T>(value: T): T => structuredClone(value);
+
+// Same order as `.order(column)` in Postgres for ids and ISO timestamps
+const byKey =
+  <T>(key: (record: T) => string | number) =>
+  (a: T, b: T) => {
+    const x = key(a);
+    const y = key(b);
+    return x < y ? -1 : x > y ? 1 : 0;
+  };
+
+const cacheKey = (row: Pick<SimilarityCacheRow, 'session_id' | 'a_id' | 'b_id'>) =>
+  `${row.session_id}:${row.a_id}:${row.b_id}`;
+
+export function createMemoryRepository(now: () => Date = () => new Date()): Repository {
+  const sessions = new Map<string, SessionRecord>();
+  const participants = new Map<string, ParticipantRecord>();
+  const items = new Map<string, IdentityItemRecord>();
+  const cache = new Map<string, SimilarityCacheRow>();
+  const rounds = new Map<string, PairingRoundRecord>();
+
+  const deleteCachedPairs = (match: (row: SimilarityCacheRow) => boolean) => {
+    cache.forEach((row, key) => {
+      if (match(row)) cache.delete(key);
+    });
+  };
+
+  const deleteParticipant = (id: string) => {
+    items.forEach((item, itemId) => {
+      if (item.participant_id === id) items.delete(itemId);
+    });
+    deleteCachedPairs((row) => row.a_id === id || row.b_id === id);
+    return participants.delete(id);
+  };
+
+  const deleteSession = (id: string) => {
+    participants.forEach((p) => {
+      if (p.session_id === id) deleteParticipant(p.id);
+    });
+    deleteCachedPairs((row) => row.session_id === id);
+    rounds.forEach((round, roundId) => {
+      if (round.session_id === id) rounds.delete(roundId);
+    });
+    sessions.delete(id);
+  };
+
+  return {
+    sessions: {
+      async get(id) {
+        return sessions.has(id) ? copy(sessions.get(id)!) : null;
+      },
+      async findByCode(code) {
+        const session = Array.from(sessions.values()).find((s) => s.code === code);
+        return session ? copy(session) : null;
+      },
+      async listByFacilitator(email) {
+        return Array.from(sessions.values())
+          .filter((s) => s.facilitator_email === email)
+          .sort(byKey((s) => s.created_at))
+          .reverse()
+          .map(copy);
+      },
+      async create(session) {
+        if (Array.from(sessions.values()).some((s) => s.code === session.code)) return null;
+        const record: SessionRecord = {
+          similarity_config: null,
+          max_participants: null,
+          state: 'open',
+          ...copy(session),
+          id: randomUUID(),
+          created_at: now().toISOString(),
+        };
+        sessions.set(record.id, record);
+        return copy(record);
+      },
+      async update(id, changes) {
+        const current = sessions.get(id);
+        if (!current) return null;
+        const updated = { ...current, ...copy(changes) };
+        sessions.set(id, updated);
+        return copy(updated);
+      },
+      async deleteExpired(before) {
+        const expired = Array.from(sessions.values()).filter(
+          (s) => s.expires_at !== null && new Date(s.expires_at) <= before,
+        );
+        expired.forEach((s) => deleteSession(s.id));
+        return expired.length;
+      },
+    },
+
+    participants: {
+      async get(id) {
+        return participants.has(id) ? copy(participants.get(id)!) : null;
+      },
+      async findByUser(sessionId, userId) {
+        const match = Array.from(participants.values()).find((p) => p.session_id === sessionId && p.user_id === userId);
+        return match ? copy(match) : null;
+      },
+      async findByName(sessionId, displayName) {
+        const name = displayName.toLowerCase();
+        const match = Array.from(participants.values()).find(
+          (p) => p.session_id === sessionId && p.display_name.toLowerCase() === name,
+        );
+        return match ? copy(match) : null;
+      },
+      async list(sessionId, { visibleOnly = false, ids } = {}) {
+        const wanted = ids ? new Set(ids) : null;
+        return Array.from(participants.values())
+          .filter((p) => p.session_id === sessionId && (!visibleOnly || p.is_visible) && (!wanted || wanted.has(p.id)))
+          .sort(byKey((p) => p.id))
+          .map(copy);
+      },
+      async count(sessionId) {
+        return Array.from(participants.values()).filter((p) => p.session_id === sessionId).length;
+      },
+      async create(participant) {
+        if (!sessions.has(participant.session_id)) {
+          throw new Error(`No session with id ${participant.session_id}`);
+        }
+        const name = participant.display_name.toLowerCase();
+        const taken = Array.from(participants.values()).some(
+          (p) => p.session_id === participant.session_id && p.display_name.toLowerCase() === name,
+        );
+        if (taken) return null;
+        const record: ParticipantRecord = {
+          user_id: null,
+          ...copy(participant),
+          id: randomUUID(),
+          created_at: now().toISOString(),
+        };
+        participants.set(record.id, record);
+        return copy(record);
+      },
+      async update(id, changes) {
+        const current = participants.get(id);
+        if (!current) return null;
+        const updated = { ...current, ...copy(changes) };
+        participants.set(id, updated);
+        return copy(updated);
+      },
+      async delete(id) {
+        return deleteParticipant(id);
+      },
+    },
+
+    identityItems: {
+      async list(participantIds) {
+        const wanted = new Set(participantIds);
+        return Array.from(items.values())
+          .filter((item) => wanted.has(item.participant_id))
+          .sort(byKey((item) => item.created_at))
+          .map(copy);
+      },
+      async insert(newItems) {
+        newItems.forEach((item) => {
+          if (!participants.has(item.participant_id)) {
+            throw new Error(`No participant with id ${item.participant_id}`);
+          }
+        });
+        newItems.forEach((item) => {
+          const record: IdentityItemRecord = { label: null, ...copy(item), id: randomUUID(), created_at: now().toISOString() };
+          items.set(record.id, record);
+        });
+      },
+      async update(updates) {
+        updates.forEach((item) => {
+          const current = items.get(item.id);
+          if (current) items.set(item.id, { ...current, ...copy(item) });
+        });
+      },
+      async delete(participantId, { id, lens } = {}) {
+        let deleted = 0;
+        items.forEach((item, itemId) => {
+          if (item.participant_id !== participantId) return;
+          if ((id && itemId !== id) || (lens && item.lens !== lens)) return;
+          items.delete(itemId);
+          deleted += 1;
+        });
+        return deleted;
+      },
+    },
+
+    similarityCache: {
+      async listForParticipant(sessionId, participantId) {
+        return Array.from(cache.values())
+          .filter((row) => row.session_id === sessionId && (row.a_id === participantId || row.b_id === participantId))
+          .map(copy);
+      },
+      async listAmong(sessionId, participantIds) {
+        const wanted = new Set(participantIds);
+        return Array.from(cache.values())
+          .filter((row) => row.session_id === sessionId && wanted.has(row.a_id) && wanted.has(row.b_id))
+          .map(copy);
+      },
+      async upsert(rows) {
+        rows.forEach((row) => cache.set(cacheKey(row), copy(row)));
+      },
+      async deleteForParticipant(sessionId, participantId) {
+        deleteCachedPairs((row) => row.session_id === sessionId && (row.a_id === participantId || row.b_id === participantId));
+      },
+      async deleteForSession(sessionId) {
+        deleteCachedPairs((row) => row.session_id === sessionId);
+      },
+    },
+
+    pairingRounds: {
+      async list(sessionId) {
+        return Array.from(rounds.values())
+          .filter((round) => round.session_id === sessionId)
+          .sort(byKey((round) => round.round_number))
+          .map(copy);
+      },
+      async create(round) {
+        const clash = Array.from(rounds.values()).some(
+          (r) => r.session_id === round.session_id && r.round_number === round.round_number,
+        );
+        if (clash) return null;
+        const record: PairingRoundRecord = { ...copy(round), id: randomUUID(), created_at: now().toISOString() };
+        rounds.set(record.id, record);
+        return copy(record);
+      },
+    },
+  };
+}
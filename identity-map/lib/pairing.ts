@@ -0,0 +1,118 @@
+/**
+ * Pairing engine for 1:1 conversation rounds.
+ *
+ * Each round pairs people so that the total pair weight is as high as
+ * possible: similarity in 'similar' mode, dissimilarity (`1 - score`)
+ * in 'different' mode. Pairs who already met in an earlier round carry
+ * a heavy penalty, so repeats only happen once every fresh pairing is
+ * exhausted. With an odd number of people the one left over joins the
+ * pair that suits them best, forming a triad.
+ *
+ * The matching starts greedily from the heaviest pairs and is then
+ * improved by swapping partners between two pairs until no swap helps.
+ * This is not guaranteed optimal, but for workshop-sized groups it is
+ * close and always deterministic.
+ */
+
+export type PairingMode = 'different' | 'similar';
+
+export const PAIRING_MODES: PairingMode[] = ['different', 'similar'];
+
+// Larger than any possible difference between fresh pairings
+const REPEAT_PENALTY = 10;
+const MAX_SWAP_PASSES = 50;
+
+function meetingKey(x: string, y: string): string {
+  return x < y ? `${x}:${y}` : `${y}:${x}`;
+}
+
+/**
+ * Collect every pair of people who shared a group in `rounds` (each
+ * round being a list of groups of participant ids).
+ */
+export function previousMeetings(rounds: string[][][]): Set<string> {
+  const met = new Set<string>();
+  rounds.forEach((groups) =>
+    groups.forEach((group) =>
+      group.forEach((x, i) => group.slice(i + 1).forEach((y) => met.add(meetingKey(x, y)))),
+    ),
+  );
+  return met;
+}
+
+/**
+ * Pair up `ids` for one round. `similarity(x, y)` returns the pair's
+ * score in [0, 1]; `met` holds pairs from earlier rounds (see
+ * `previousMeetings`). Returns groups of two, plus one group of three
+ * when the count is odd. Fewer than two people yields no groups.
+ */
+export function pairRound(
+  ids: string[],
+  similarity: (x: string, y: string) => number,
+  mode: PairingMode,
+  met: Set<string> = new Set(),
+): string[][] {
+  const n = ids.length;
+  if (n < 2) return [];
+  // With an odd count, a dummy node (index n) absorbs the leftover person
+  const size = n % 2 === 0 ? n : n + 1;
+  const weights = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (__, j) => {
+      if (i === j || i >= n || j >= n) return 0;
+      const score = similarity(ids[i], ids[j]);
+      const base = mode === 'similar' ? score : 1 - score;
+      return met.has(meetingKey(ids[i], ids[j])) ? base - REPEAT_PENALTY : base;
+    }),
+  );
+
+  // Greedy: take the heaviest edges whose ends are both free
+  const edges: [number, number][] = [];
+  for (let i = 0; i < size; i++) {
+    for (let j = i + 1; j < size; j++) edges.push([i, j]);
+  }
+  edges.sort(([a, b], [c, d]) => weights[c][d] - weights[a][b] || a - c || b - d);
+  const partner = new Array(size).fill(-1);
+  edges.forEach(([i, j]) => {
+    if (partner[i] !== -1 || partner[j] !== -1) return;
+    partner[i] = j;
+    partner[j] = i;
+  });
+
+  // Improve by swapping partners between two pairs
+  for (let pass = 0; pass < MAX_SWAP_PASSES; pass++) {
+    let improved = false;
+    for (let a = 0; a < size; a++) {
+      for (let c = a + 1; c < size; c++) {
+        const b = partner[a];
+        const d = partner[c];
+        if (b === c || b < a || d < c) continue;
+        const current = weights[a][b] + weights[c][d];
+        const crossed = weights[a][c] + weights[b][d];
+        const swapped = weights[a][d] + weights[b][c];
+        if (crossed > current + 1e-9 && crossed >= swapped) {
+          [partner[a], partner[c], partner[b], partner[d]] = [c, a, d, b];
+          improved = true;
+        } else if (swapped > current + 1e-9) {
+          [partner[a], partner[d], partner[b], partner[c]] = [d, a, c, b];
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  const groups: number[][] = [];
+  let leftover = -1;
+  for (let i = 0; i < n; i++) {
+    const j = partner[i];
+    if (j === n) leftover = i;
+    else if (i < j) groups.push([i, j]);
+  }
+  if (leftover !== -1) {
+    // Join the pair the leftover person suits best
+    const fit = (group: number[]) => group.reduce((sum, m) => sum + weights[leftover][m], 0);
+    const best = groups.reduce((top, group) => (fit(group) > fit(top) ? group : top), groups[0]);
+    best.push(leftover);
+  }
+  return groups.map((group) => group.map((i) => ids[i]));
+}
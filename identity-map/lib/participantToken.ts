@@ -0,0 +1,79 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Signed participant tokens.
+ *
+ * `/api/join` returns a token naming the participant, their session and
+ * the Supabase user who joined. Pages store it instead of raw ids and
+ * send it with every API call (see `lib/authFetch.ts`); routes verify
+ * the signature and that it belongs to the signed-in user before acting
+ * for the participant. Tokens are `base64url(claims).base64url(hmac)`,
+ * signed with `PARTICIPANT_TOKEN_SECRET`. Server only.
+ */
+
+export interface ParticipantClaims {
+  participantId: string;
+  sessionId: string;
+  userId: string;
+  // Issue time, seconds since the epoch
+  iat: number;
+}
+
+function tokenSecret(): string {
+  const secret = process.env.PARTICIPANT_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('PARTICIPANT_TOKEN_SECRET must be set to issue participant tokens.');
+  }
+  return secret;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Sign any JSON claims into a `base64url(claims).base64url(hmac)`
+ * token. Also used for local sign-in tokens (see `lib/localAuth.ts`).
+ */
+export function signToken(claims: object, secret: string = tokenSecret()): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Verify a token made by `signToken` and return its parsed claims, or
+ * null when it is malformed or the signature does not match. Callers
+ * check the shape of the claims.
+ */
+export function readToken(token: string, secret: string = tokenSecret()): Record<string, unknown> | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return claims && typeof claims === 'object' && !Array.isArray(claims) ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sign claims into a participant token.
+ */
+export function signParticipantToken(claims: ParticipantClaims, secret: string = tokenSecret()): string {
+  return signToken(claims, secret);
+}
+
+/**
+ * Verify a participant token and return its claims, or null when it
+ * is malformed or the signature does not match.
+ */
+export function verifyParticipantToken(token: string, secret: string = tokenSecret()): ParticipantClaims | null {
+  const claims = readToken(token, secret);
+  if (typeof claims?.participantId !== 'string' || typeof claims?.sessionId !== 'string' || typeof claims?.userId !== 'string') {
+    return null;
+  }
+  return claims as unknown as ParticipantClaims;
+}
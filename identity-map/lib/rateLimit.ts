@@ -0,0 +1,156 @@
+/**
+ * Rate limiting for public endpoints.
+ *
+ * Join codes are short, so `/api/join` limits attempts per client IP
+ * (against enumerating codes) and per code (against flooding one
+ * session), and session creation is limited per IP. Counts are kept in
+ * fixed windows in a pluggable `RateLimitStore`. The default store is
+ * in memory, which is per server instance: with several instances
+ * (e.g. serverless) each enforces its own limits, so plug in a shared
+ * store with `setRateLimitStore` for stricter guarantees.
+ *
+ * Thresholds come from environment variables in the form
+ * `<limit>/<window seconds>`, e.g. `RATE_LIMIT_JOIN_IP=60/600`.
+ */
+
+export interface RateLimitStore {
+  /**
+   * Count a hit for `key` and return the number of hits in the current
+   * window (including this one) and when the window resets (ms epoch).
+   * A new window starts at the first hit after the previous one ends.
+   */
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+}
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the window resets; send as Retry-After when blocked
+  retryAfter: number;
+}
+
+export type RateLimitName = 'joinPerIp' | 'joinPerCode' | 'createSessionPerIp';
+
+const RULES: Record<RateLimitName, { env: string; fallback: RateLimitRule }> = {
+  joinPerIp: { env: 'RATE_LIMIT_JOIN_IP', fallback: { limit: 60, windowMs: 10 * 60 * 1000 } },
+  joinPerCode: { env: 'RATE_LIMIT_JOIN_CODE', fallback: { limit: 200, windowMs: 10 * 60 * 1000 } },
+  createSessionPerIp: { env: 'RATE_LIMIT_CREATE_SESSION_IP', fallback: { limit: 20, windowMs: 60 * 60 * 1000 } },
+};
+
+// Prune expired windows once the map grows past this many keys
+const MAX_MEMORY_KEYS = 10000;
+
+/**
+ * Create an in-memory store. Expired windows are dropped lazily once
+ * the store holds many keys.
+ */
+export function createMemoryRateLimitStore(now: () => number = Date.now): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  return {
+    async increment(key, windowMs) {
+      const time = now();
+      if (windows.size > MAX_MEMORY_KEYS) {
+        windows.forEach((entry, k) => {
+          if (entry.resetAt <= time) windows.delete(k);
+        });
+      }
+      const current = windows.get(key);
+      const entry = current && current.resetAt > time ? current : { count: 0, resetAt: time + windowMs };
+      entry.count += 1;
+      windows.set(key, entry);
+      return { count: entry.count, resetAt: entry.resetAt };
+    },
+  };
+}
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Replace the store used by `checkRateLimit`, e.g. with one backed by
+ * Redis or a database table shared between instances.
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+/**
+ * Parse a `<limit>/<window seconds>` threshold, returning null when it
+ * is malformed.
+ */
+export function parseRateLimitRule(value: string | undefined): RateLimitRule | null {
+  const match = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(value ?? '');
+  if (!match) return null;
+  const limit = Number(match[1]);
+  const seconds = Number(match[2]);
+  return limit > 0 && seconds > 0 ? { limit, windowMs: seconds * 1000 } : null;
+}
+
+/**
+ * The configured rule for `name`, falling back to the default when the
+ * environment variable is unset or malformed.
+ */
+export function rateLimitRule(name: RateLimitName): RateLimitRule {
+  const { env, fallback } = RULES[name];
+  return parseRateLimitRule(process.env[env]) ?? fallback;
+}
+
+/**
+ * Count a request against `name` for `key` (an IP address or a join
+ * code) and report whether it is within the limit. A null key, for a
+ * client whose address is unknown, is always allowed and not counted:
+ * sharing one key between such clients would turn a per-client limit
+ * into a global one.
+ */
+export async function checkRateLimit(
+  name: RateLimitName,
+  key: string | null,
+  rule: RateLimitRule = rateLimitRule(name),
+  limitStore: RateLimitStore = store,
+): Promise<RateLimitResult> {
+  if (key === null) return { allowed: true, limit: rule.limit, remaining: rule.limit, retryAfter: 0 };
+  const { count, resetAt } = await limitStore.increment(`${name}:${key}`, rule.windowMs);
+  return {
+    allowed: count <= rule.limit,
+    limit: rule.limit,
+    remaining: Math.max(rule.limit - count, 0),
+    retryAfter: Math.max(Math.ceil((resetAt - Date.now()) / 1000), 1),
+  };
+}
+
+/**
+ * Number of reverse proxies in front of the app that append to
+ * `x-forwarded-for`, from `TRUSTED_PROXY_HOPS`. 0 (the default) means
+ * forwarding headers are not trusted at all.
+ */
+export function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+/**
+ * The client's IP address: the platform-provided one when available.
+ * Forwarding headers are set by the client unless a proxy overwrites
+ * them, so they are only used behind `trustedProxies` proxies: the
+ * entry that many places from the right of `x-forwarded-for` is the
+ * address the outermost trusted proxy saw, and anything to its left
+ * may be forged. Returns null when there is no trusted address.
+ */
+export function clientIp(
+  request: { ip?: string; headers: Headers },
+  trustedProxies: number = trustedProxyHops(),
+): string | null {
+  if (request.ip) return request.ip;
+  if (trustedProxies === 0) return null;
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+  if (forwarded.length > 0) return forwarded[Math.max(forwarded.length - trustedProxies, 0)];
+  return request.headers.get('x-real-ip') || null;
+}
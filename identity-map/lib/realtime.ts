@@ -0,0 +1,99 @@
+import { getSupabase, supabaseConfigured } from './supabaseClient';
+import { SessionState, effectiveState } from './sessionState';
+
+/**
+ * Live updates via Supabase Realtime.
+ *
+ * Subscribes to row changes in `participant` and `identity_item`, and
+ * to lifecycle changes and new conversation rounds of the session
+ * itself, and reports them as small `SessionChange` events so pages can
+ * update only what changed. `identity_item` has no session column to
+ * filter on, so its events arrive for every session and callers ignore
+ * participants they do not know. The tables must be in the
+ * `supabase_realtime` publication (see `supabase/schema.sql`).
+ */
+
+export type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export type SessionChange =
+  | {
+      table: 'participant';
+      event: ChangeEvent;
+      participantId: string;
+      // Null for deletes, which carry only the id
+      sessionId: string | null;
+      // The new row, or null for deletes
+      row: { id: string; display_name: string; is_visible: boolean } | null;
+    }
+  // Deletes carry only the item's id, so `participantId` is null for them
+  | { table: 'identity_item'; event: ChangeEvent; participantId: string | null }
+  | { table: 'sessions'; event: ChangeEvent; sessionId: string; state: SessionState }
+  | { table: 'pairing_round'; event: ChangeEvent; sessionId: string };
+
+let channelCount = 0;
+
+/**
+ * Listen for participant and identity changes. Participant events are
+ * limited to `sessionId` when one is given, otherwise every session is
+ * watched (used by the admin page). Under row-level security Realtime
+ * sends deletes with only the primary key and cannot filter them, so
+ * participant deletes arrive from every session without a session id
+ * and identity item deletes without a participant id; callers match
+ * them against what they hold or refetch. With a `sessionId`, changes
+ * to that session's lifecycle state and its new conversation rounds are
+ * reported too. Returns an unsubscribe function. Without Supabase
+ * (local sign-in) nothing is reported.
+ */
+export function subscribeToSession(sessionId: string | null, onChange: (change: SessionChange) => void): () => void {
+  if (!supabaseConfigured) return () => {};
+  const filter = sessionId ? { filter: `session_id=eq.${sessionId}` } : {};
+  const onParticipant = (payload: { eventType: ChangeEvent; new: Record<string, any>; old: Record<string, any> }) => {
+    if (payload.eventType === 'DELETE') {
+      if (payload.old?.id) {
+        onChange({ table: 'participant', event: 'DELETE', participantId: payload.old.id, sessionId: null, row: null });
+      }
+      return;
+    }
+    const row = payload.new;
+    if (!row?.id) return;
+    onChange({
+      table: 'participant',
+      event: payload.eventType,
+      participantId: row.id,
+      sessionId: row.session_id ?? null,
+      row: { id: row.id, display_name: row.display_name, is_visible: row.is_visible },
+    });
+  };
+  let channel = getSupabase()
+    .channel(`session-changes-${sessionId ?? 'all'}-${++channelCount}`)
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'participant', ...filter }, onParticipant)
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'participant', ...filter }, onParticipant)
+    .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'participant' }, onParticipant)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'identity_item' }, (payload) => {
+      if (payload.eventType === 'DELETE') {
+        onChange({ table: 'identity_item', event: 'DELETE', participantId: null });
+        return;
+      }
+      const row = payload.new as Record<string, any>;
+      if (!row?.participant_id) return;
+      onChange({ table: 'identity_item', event: payload.eventType, participantId: row.participant_id });
+    });
+  if (sessionId) {
+    channel = channel.on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'sessions', filter: `id=eq.${sessionId}` },
+      (payload) => {
+        const row = payload.new as Record<string, any>;
+        onChange({ table: 'sessions', event: payload.eventType, sessionId, state: effectiveState(row) });
+      },
+    ).on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'pairing_round', filter: `session_id=eq.${sessionId}` },
+      (payload) => onChange({ table: 'pairing_round', event: payload.eventType, sessionId }),
+    );
+  }
+  channel.subscribe();
+  return () => {
+    getSupabase().removeChannel(channel);
+  };
+}
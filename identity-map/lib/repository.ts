@@ -0,0 +1,189 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Lens, LensSimilarityResult } from './similarity';
+import type { IdentityItemRow } from './identity';
+import type { PairingMode } from './pairing';
+import { createSupabaseRepository } from './supabaseRepository';
+import { createMemoryRepository } from './memoryRepository';
+import { getServiceClient } from './supabaseAdmin';
+
+/**
+ * Storage for the application's data, behind one interface so API
+ * routes, the similarity cache and scripts do not depend on a
+ * particular database.
+ *
+ * Two backends exist: Supabase (the default, see
+ * `lib/supabaseRepository.ts`) and an in-memory one for local
+ * development and tests (`lib/memoryRepository.ts`), selected with
+ * `STORAGE_BACKEND=supabase|memory`. Records mirror the tables in
+ * `supabase/schema.sql`, and both backends enforce the same unique
+ * constraints and cascading deletes. Failed operations throw; lookups
+ * of a single record return null when it does not exist.
+ *
+ * Sign-in and realtime updates still go through Supabase directly.
+ */
+
+export interface SessionRecord {
+  id: string;
+  code: string;
+  title: string;
+  facilitator_email: string | null;
+  expires_at: string | null;
+  similarity_config: unknown;
+  max_participants: number | null;
+  state: string;
+  created_at: string;
+}
+
+export interface ParticipantRecord {
+  id: string;
+  session_id: string;
+  user_id: string | null;
+  display_name: string;
+  is_visible: boolean;
+  consent_given: boolean;
+  created_at: string;
+}
+
+export interface IdentityItemRecord extends IdentityItemRow {
+  id: string;
+  created_at: string;
+}
+
+export interface PairingRoundRecord {
+  id: string;
+  session_id: string;
+  round_number: number;
+  mode: PairingMode;
+  groups: string[][];
+  created_at: string;
+}
+
+/**
+ * A row of the similarity cache. `a_id` is the smaller participant id
+ * and the explanations are oriented from `a_id` to `b_id` (see
+ * `lib/similarityCache.ts`).
+ */
+export interface SimilarityCacheRow {
+  session_id: string;
+  a_id: string;
+  b_id: string;
+  score_overall: number;
+  score_given: number | null;
+  score_chosen: number | null;
+  score_core: number | null;
+  breakdown_json: { version?: number; explanations: Record<Lens, LensSimilarityResult> };
+}
+
+export type NewSession = Pick<SessionRecord, 'code' | 'title' | 'facilitator_email' | 'expires_at'> &
+  Partial<Pick<SessionRecord, 'max_participants' | 'state'>>;
+
+export type NewParticipant = Pick<ParticipantRecord, 'session_id' | 'display_name' | 'is_visible' | 'consent_given'> &
+  Partial<Pick<ParticipantRecord, 'user_id'>>;
+
+export interface SessionRepository {
+  get(id: string): Promise<SessionRecord | null>;
+  findByCode(code: string): Promise<SessionRecord | null>;
+  // Newest first
+  listByFacilitator(email: string): Promise<SessionRecord[]>;
+  // Returns null when the code is already in use
+  create(session: NewSession): Promise<SessionRecord | null>;
+  update(
+    id: string,
+    changes: Partial<Pick<SessionRecord, 'state' | 'expires_at' | 'similarity_config'>>,
+  ): Promise<SessionRecord | null>;
+  // Deletes sessions that expired at or before `before`, with all their data
+  deleteExpired(before: Date): Promise<number>;
+}
+
+export interface ParticipantRepository {
+  get(id: string): Promise<ParticipantRecord | null>;
+  findByUser(sessionId: string, userId: string): Promise<ParticipantRecord | null>;
+  // Display names are compared ignoring case
+  findByName(sessionId: string, displayName: string): Promise<ParticipantRecord | null>;
+  // Ordered by id; `ids` limits the result to those participants
+  list(sessionId: string, filter?: { visibleOnly?: boolean; ids?: string[] }): Promise<ParticipantRecord[]>;
+  count(sessionId: string): Promise<number>;
+  // Returns null when the display name is already taken in the session
+  create(participant: NewParticipant): Promise<ParticipantRecord | null>;
+  update(id: string, changes: Partial<Pick<ParticipantRecord, 'is_visible'>>): Promise<ParticipantRecord | null>;
+  // Deletes the participant with their identity items and cached pairs
+  delete(id: string): Promise<boolean>;
+}
+
+export interface IdentityItemRepository {
+  // Oldest first
+  list(participantIds: string[]): Promise<IdentityItemRecord[]>;
+  insert(items: Omit<IdentityItemRow, 'id'>[]): Promise<void>;
+  update(items: (IdentityItemRow & { id: string })[]): Promise<void>;
+  // Deletes one item, one lens or everything of a participant; returns the number deleted
+  delete(participantId: string, filter?: { id?: string; lens?: Lens }): Promise<number>;
+}
+
+export interface SimilarityCacheRepository {
+  // Pairs involving `participantId`
+  listForParticipant(sessionId: string, participantId: string): Promise<SimilarityCacheRow[]>;
+  // Pairs with both participants in `participantIds`
+  listAmong(sessionId: string, participantIds: string[]): Promise<SimilarityCacheRow[]>;
+  upsert(rows: SimilarityCacheRow[]): Promise<void>;
+  deleteForParticipant(sessionId: string, participantId: string): Promise<void>;
+  deleteForSession(sessionId: string): Promise<void>;
+}
+
+export interface PairingRoundRepository {
+  // Oldest first
+  list(sessionId: string): Promise<PairingRoundRecord[]>;
+  // Returns null when the session already has a round with that number
+  create(
+    round: Pick<PairingRoundRecord, 'session_id' | 'round_number' | 'mode' | 'groups'>,
+  ): Promise<PairingRoundRecord | null>;
+}
+
+export interface Repository {
+  sessions: SessionRepository;
+  participants: ParticipantRepository;
+  identityItems: IdentityItemRepository;
+  similarityCache: SimilarityCacheRepository;
+  pairingRounds: PairingRoundRepository;
+}
+
+export type StorageBackend = 'supabase' | 'memory';
+
+/**
+ * The configured backend; anything other than `memory` means Supabase.
+ */
+export function storageBackend(): StorageBackend {
+  return process.env.STORAGE_BACKEND === 'memory' ? 'memory' : 'supabase';
+}
+
+// Kept on globalThis so every route bundle in `next dev` shares the
+// same in-memory data, and it survives hot reloads
+const globalStorage = globalThis as typeof globalThis & { identityMapRepository?: Repository };
+
+/**
+ * Replace the repository returned by `getRepository`, e.g. with a
+ * fresh in-memory one in tests. Pass null to go back to the configured
+ * backend.
+ */
+export function setRepository(next: Repository | null): void {
+  globalStorage.identityMapRepository = next ?? undefined;
+}
+
+/**
+ * Return the repository for server code. Without `auth` it acts with
+ * full access (the service role for Supabase), so callers must check
+ * who is asking first. With `auth`, the Supabase backend runs queries
+ * as the signed-in user so row-level security applies as well; the
+ * in-memory backend has no row-level security and ignores it.
+ */
+export function getRepository(auth?: { client: SupabaseClient | null }): Repository {
+  if (globalStorage.identityMapRepository) return globalStorage.identityMapRepository;
+  if (storageBackend() === 'memory') {
+    globalStorage.identityMapRepository = createMemoryRepository();
+    return globalStorage.identityMapRepository;
+  }
+  if (auth && !auth.client) {
+    // Local sign-in (lib/localAuth.ts) must never fall back to full access
+    throw new Error('Local sign-in only works with the in-memory storage backend');
+  }
+  return createSupabaseRepository(auth ? (auth.client as SupabaseClient) : getServiceClient());
+}
@@ -0,0 +1,152 @@
+import { Lens } from './similarity';
+import { LENSES } from './identity';
+import { PairScores } from './matches';
+import { SessionAnalytics } from './analytics';
+
+/**
+ * Session exports for facilitators.
+ *
+ * An export bundles the shared tag counts (k-anonymous, as on the
+ * dashboard), the pairwise similarity matrix, conversation rounds and
+ * optionally affinity groups. Only participants who gave consent are
+ * included. Those who chose to be visible appear under their display
+ * name; everyone else is pseudonymised as "Participant N", numbered in
+ * join order, and participant ids never leave the server. The same
+ * structure is rendered as JSON, as CSV (one table at a time) and by
+ * the printable report page.
+ */
+
+export interface ExportParticipant {
+  id: string;
+  display_name: string;
+  is_visible: boolean;
+  consent_given: boolean;
+  created_at: string;
+}
+
+export interface SessionExport {
+  session: { title: string; code: string; state: string; exportedAt: string };
+  minGroupSize: number;
+  participants: { label: string; visible: boolean }[];
+  tags: { lens: Lens; tag: string; participants: number }[];
+  similarity: {
+    labels: string[];
+    // Overall scores, row and column order as `labels`; null on the diagonal
+    overall: (number | null)[][];
+    pairs: ({ a: string; b: string } & PairScores)[];
+  };
+  rounds: { round: number; mode: string; groups: string[][] }[];
+  groups: { mode: string; members: string[][] } | null;
+}
+
+export const EXPORT_TABLES = ['tags', 'similarity', 'rounds', 'groups'] as const;
+export type ExportTable = (typeof EXPORT_TABLES)[number];
+
+/**
+ * Label each consenting participant: visible ones by display name,
+ * the rest as "Participant N" in join order. Participants without
+ * consent get no label and are left out of exports.
+ */
+export function participantLabels(participants: ExportParticipant[]): Map<string, string> {
+  const labels = new Map<string, string>();
+  let pseudonym = 0;
+  participants
+    .filter((p) => p.consent_given)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id))
+    .forEach((p) => {
+      labels.set(p.id, p.is_visible ? p.display_name : `Participant ${++pseudonym}`);
+    });
+  return labels;
+}
+
+/**
+ * Assemble an export. `pairScores` looks up the scores of a pair of
+ * participant ids; `rounds` and `groups` hold participant ids, and
+ * anyone without a label (withdrawn or without consent) is dropped from
+ * them.
+ */
+export function buildSessionExport(input: {
+  session: { title: string; code: string; state: string };
+  participants: ExportParticipant[];
+  analytics: SessionAnalytics;
+  pairScores: (aId: string, bId: string) => PairScores;
+  rounds: { round_number: number; mode: string; groups: string[][] }[];
+  groups: { mode: string; members: string[][] } | null;
+  exportedAt?: Date;
+}): SessionExport {
+  const labels = participantLabels(input.participants);
+  const included = input.participants.filter((p) => labels.has(p.id));
+  const ordered = Array.from(labels.keys());
+  const byId = new Map(included.map((p) => [p.id, p]));
+  const relabel = (groups: string[][]) =>
+    groups
+      .map((group) => group.filter((id) => labels.has(id)).map((id) => labels.get(id) as string))
+      .filter((group) => group.length > 0);
+
+  const pairs: SessionExport['similarity']['pairs'] = [];
+  const overall = ordered.map((a, i) =>
+    ordered.map((b, j) => {
+      if (i === j) return null;
+      const scores = input.pairScores(a, b);
+      if (i < j) pairs.push({ a: labels.get(a) as string, b: labels.get(b) as string, ...scores });
+      return scores.overall;
+    }),
+  );
+
+  return {
+    session: {
+      title: input.session.title,
+      code: input.session.code,
+      state: input.session.state,
+      exportedAt: (input.exportedAt ?? new Date()).toISOString(),
+    },
+    minGroupSize: input.analytics.minGroupSize,
+    participants: ordered.map((id) => ({ label: labels.get(id) as string, visible: byId.get(id)!.is_visible })),
+    tags: LENSES.flatMap((lens) => input.analytics.lenses[lens].topTags.map((t) => ({ lens, ...t }))),
+    similarity: { labels: ordered.map((id) => labels.get(id) as string), overall, pairs },
+    rounds: input.rounds.map((r) => ({ round: r.round_number, mode: r.mode, groups: relabel(r.groups) })),
+    groups: input.groups ? { mode: input.groups.mode, members: relabel(input.groups.members) } : null,
+  };
+}
+
+/**
+ * Quote a CSV cell when needed. Cells that a spreadsheet would read as
+ * a formula are prefixed with an apostrophe.
+ */
+function csvCell(value: string | number | null): string {
+  if (value === null) return '';
+  let text = typeof value === 'number' ? String(Math.round(value * 10000) / 10000) : value;
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRows(rows: (string | number | null)[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Render one table of an export as CSV.
+ */
+export function exportTableCsv(data: SessionExport, table: ExportTable): string {
+  switch (table) {
+    case 'tags':
+      return csvRows([['lens', 'tag', 'participants'], ...data.tags.map((t) => [t.lens, t.tag, t.participants])]);
+    case 'similarity':
+      return csvRows([
+        ['a', 'b', 'overall', 'given', 'chosen', 'core'],
+        ...data.similarity.pairs.map((p) => [p.a, p.b, p.overall, p.GIVEN, p.CHOSEN, p.CORE]),
+      ]);
+    case 'rounds':
+      return csvRows([
+        ['round', 'mode', 'group', 'participant'],
+        ...data.rounds.flatMap((r) =>
+          r.groups.flatMap((group, g) => group.map((label) => [r.round, r.mode, g + 1, label])),
+        ),
+      ]);
+    case 'groups':
+      return csvRows([
+        ['mode', 'group', 'participant'],
+        ...(data.groups?.members ?? []).flatMap((group, g) => group.map((label) => [data.groups!.mode, g + 1, label])),
+      ]);
+  }
+}
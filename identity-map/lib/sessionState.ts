@@ -0,0 +1,91 @@
+/**
+ * Session lifecycle.
+ *
+ * A session moves through explicit states, set by its facilitator:
+ *
+ * - `draft`: created but not yet accepting participants
+ * - `open`: participants can join and edit their identity
+ * - `locked`: no new participants or edits, matches still hidden
+ * - `revealed`: matches, the People Map and explanations are shown
+ * - `ended`: closed for good; the purge script removes it later
+ *
+ * Facilitators can step back from `locked` to `open` and from
+ * `revealed` to `locked` (e.g. to let a late participant finish), and
+ * end a session from any state. A session whose `expires_at` has
+ * passed counts as ended whatever its stored state.
+ */
+
+export type SessionState = 'draft' | 'open' | 'locked' | 'revealed' | 'ended';
+
+export const SESSION_STATES: SessionState[] = ['draft', 'open', 'locked', 'revealed', 'ended'];
+
+export const SESSION_STATE_LABELS: Record<SessionState, string> = {
+  draft: 'Draft',
+  open: 'Open for joining',
+  locked: 'Locked for edits',
+  revealed: 'Matches revealed',
+  ended: 'Ended',
+};
+
+const TRANSITIONS: Record<SessionState, SessionState[]> = {
+  draft: ['open', 'ended'],
+  open: ['locked', 'ended'],
+  locked: ['open', 'revealed', 'ended'],
+  revealed: ['locked', 'ended'],
+  ended: [],
+};
+
+/**
+ * Parse a state name, returning null for anything else.
+ */
+export function parseSessionState(value: unknown): SessionState | null {
+  return SESSION_STATES.includes(value as SessionState) ? (value as SessionState) : null;
+}
+
+/**
+ * The states a session in `from` can move to next.
+ */
+export function nextStates(from: SessionState): SessionState[] {
+  return TRANSITIONS[from];
+}
+
+/**
+ * Whether a facilitator may move a session from `from` to `to`.
+ */
+export function canTransition(from: SessionState, to: SessionState): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * The state a session is effectively in: `ended` once `expires_at`
+ * has passed, otherwise its stored state. Rows without a valid state
+ * count as `open`, matching the column default.
+ */
+export function effectiveState(
+  session: { state?: string | null; expires_at?: string | null },
+  now: number = Date.now(),
+): SessionState {
+  if (session.expires_at && new Date(session.expires_at).getTime() <= now) return 'ended';
+  return parseSessionState(session.state) ?? 'open';
+}
+
+/**
+ * Whether new participants can join.
+ */
+export function canJoin(state: SessionState): boolean {
+  return state === 'open';
+}
+
+/**
+ * Whether participants can add, change or delete identity items.
+ */
+export function canEditIdentity(state: SessionState): boolean {
+  return state === 'open';
+}
+
+/**
+ * Whether participants can see their matches and the People Map.
+ */
+export function matchesRevealed(state: SessionState): boolean {
+  return state === 'revealed';
+}
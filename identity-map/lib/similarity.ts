@@ -1,10 +1,11 @@
 /*
  * Similarity computation for Identity Map
  *
- * Implements weighted Jaccard similarity for tag items, unweighted
- * Jaccard for text, and combines them per lens. Also includes
- * utilities to explain overlaps and differences between two
- * participants.
+ * Implements weighted Jaccard similarity for tag items, pluggable
+ * text similarity (unweighted Jaccard or TF-IDF cosine), and combines
+ * them per lens. Text is tokenized per language (stopwords and
+ * stemming) after Unicode normalisation. Also includes utilities to
+ * explain overlaps and differences between two participants.
  */
 
 export type Lens = 'GIVEN' | 'CHOSEN' | 'CORE';
@@ -21,50 +22,243 @@ export interface Identity {
 
 export interface LensSimilarityResult {
   score: number;
+  /** Weighted Jaccard over tags, before blending. */
+  tagScore: number;
+  /** Text strategy score, before blending. */
+  textScore: number;
   overlapTags: string[];
   uniqueToA: string[];
   uniqueToB: string[];
   topWeights: string[];
+  /** Words both participants used, as first written. */
+  sharedTerms: string[];
+  /** Two-word phrases both participants used. */
+  sharedPhrases: string[];
+  uniqueTermsA: string[];
+  uniqueTermsB: string[];
+  /** Taxonomy categories both participants listed (different) tags under. */
+  sharedAncestors: string[];
 }
 
+// Cap on each list of terms in a text explanation
+const MAX_EXPLAINED_TERMS = 10;
+
 export interface SimilarityResult {
   scores: Record<Lens, number>;
   scoreOverall: number;
   explanations: Record<Lens, LensSimilarityResult>;
 }
 
-// Basic English stopword list for text Jaccard. This list is not
-// exhaustive but covers common filler words.
-const STOP_WORDS = new Set([
-  'the',
-  'a',
-  'an',
-  'and',
-  'or',
-  'but',
-  'if',
-  'on',
-  'in',
-  'with',
-  'to',
-  'for',
-  'of',
-  'by',
-  'is',
-  'are',
-  'am',
-  'be',
-  'was',
-  'were',
-  'this',
-  'that',
-]);
+/**
+ * A node of a tag taxonomy: a tag and the narrower tags under it, e.g.
+ * `{ tag: 'Music', children: [{ tag: 'Jazz' }, { tag: 'Rock' }] }`.
+ */
+export interface TagTaxonomyNode {
+  tag: string;
+  children?: TagTaxonomyNode[];
+}
+
+/**
+ * Tunable parameters of the similarity model. `lensWeights` weight
+ * each lens in the overall score (a weight of 0 ignores the lens) and
+ * `tagBlend` is the share of a lens score taken from tags, with the
+ * remainder taken from free text.
+ */
+export interface SimilarityConfig {
+  lensWeights: Record<Lens, number>;
+  tagBlend: number;
+  /** Extra synonym groups on top of `DEFAULT_TAG_SYNONYMS`. */
+  tagSynonyms: string[][];
+  /** How free text is compared; see `TextSimilarityStrategy`. */
+  textStrategy: TextStrategyName;
+  /** Code of the language used for stopwords and stemming; see `registerTextLanguage`. */
+  language: string;
+  /** Weight tags by how rare they are in the session; see `tagRarityFor`. */
+  tagRarity: boolean;
+  /** Tree of tags giving partial credit for related tags; see `createTagTaxonomy`. */
+  tagTaxonomy: TagTaxonomyNode[];
+}
+
+export const DEFAULT_SIMILARITY_CONFIG: SimilarityConfig = {
+  lensWeights: { GIVEN: 0.8, CHOSEN: 1.0, CORE: 1.2 },
+  tagBlend: 0.7,
+  tagSynonyms: [],
+  textStrategy: 'jaccard',
+  language: 'en',
+  tagRarity: false,
+  tagTaxonomy: [],
+};
+
+export type TextStrategyName = 'jaccard' | 'tfidf';
+
+export const TEXT_STRATEGIES: TextStrategyName[] = ['jaccard', 'tfidf'];
+
+/**
+ * Compares the tokenized free text of two participants within a lens
+ * and returns a score between 0 and 1.
+ */
+export interface TextSimilarityStrategy {
+  name: TextStrategyName;
+  similarity(aTokens: string[], bTokens: string[]): number;
+}
+
+/**
+ * Token and tag statistics over all participants in a session. Each
+ * participant's texts in one lens form one document; for tags, each
+ * participant counts once per canonical tag key across all lenses.
+ * Needed by corpus-based strategies such as TF-IDF and by tag rarity.
+ */
+export interface SimilarityCorpus {
+  documentCount: number;
+  documentFrequency: Map<string, number>;
+  /** Participants with at least one tag. */
+  tagDocumentCount: number;
+  /** Participants using each canonical tag key. */
+  tagFrequency: Map<string, number>;
+}
+
+/**
+ * Multiplier for a canonical tag key in weighted Jaccard; rare tags
+ * get larger factors.
+ */
+export type TagRarity = (key: string) => number;
+
+/**
+ * Built-in tag synonym groups. Tags in the same group are matched as
+ * the same tag and reported under the group's first entry. Keep this
+ * list to unambiguous equivalences; workshop-specific groups belong
+ * in the session config.
+ */
+export const DEFAULT_TAG_SYNONYMS: string[][] = [
+  ['lgbtq', 'lgbt', 'lgbtqia', 'lgbtqia+', 'lgbtq+', 'queer'],
+  ['nonbinary', 'non-binary', 'enby'],
+  ['runner', 'running', 'jogger', 'jogging'],
+  ['neurodivergent', 'neurodiverse'],
+  ['parent', 'parenthood'],
+];
+
+/**
+ * Language-specific text handling: the words to ignore when comparing
+ * text and how words are reduced to a common stem. Stopwords are
+ * matched after folding (see `foldText`), so lists may be written with
+ * or without accents.
+ */
+export interface TextLanguage {
+  code: string;
+  name: string;
+  stopWords: Set<string>;
+  stem(token: string): string;
+}
+
+export const DEFAULT_TEXT_LANGUAGE = 'en';
+
+const TEXT_LANGUAGES = new Map<string, TextLanguage>();
+
+/**
+ * Add a language, or replace the built-in one with the same code.
+ * Sessions can then select it by `code` in their similarity config.
+ */
+export function registerTextLanguage(language: {
+  code: string;
+  name: string;
+  stopWords: string[];
+  stem?: (token: string) => string;
+}): void {
+  TEXT_LANGUAGES.set(language.code, {
+    code: language.code,
+    name: language.name,
+    stopWords: new Set(language.stopWords.map((word) => foldText(word))),
+    stem: language.stem ?? ((token) => token),
+  });
+}
+
+/**
+ * The registered languages, for validating configs and listing them in
+ * the admin settings.
+ */
+export function listTextLanguages(): { code: string; name: string }[] {
+  return Array.from(TEXT_LANGUAGES.values()).map(({ code, name }) => ({ code, name }));
+}
+
+/**
+ * Look up a language by code, falling back to the default language for
+ * unknown codes.
+ */
+export function textLanguage(code: string = DEFAULT_TEXT_LANGUAGE): TextLanguage {
+  return TEXT_LANGUAGES.get(code) ?? (TEXT_LANGUAGES.get(DEFAULT_TEXT_LANGUAGE) as TextLanguage);
+}
+
+// Letters that do not decompose under Unicode normalisation
+const FOLDED_LETTERS: Record<string, string> = { ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', ł: 'l', đ: 'd' };
+
+/**
+ * Normalise text for comparison: NFKC (so full-width and compatibility
+ * forms meet their plain equivalents), lowercase, and fold diacritics
+ * on Latin letters ("Café" and "cafe" match). Marks in other scripts
+ * are kept, since there they often distinguish letters.
+ */
+export function foldText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/(\p{Script=Latin})\p{M}+/gu, '$1')
+    .replace(/[ßæœøłđ]/g, (ch) => FOLDED_LETTERS[ch])
+    .normalize('NFC');
+}
+
+// Runs of letters, digits and combining marks, or a single emoji
+const WORD_PATTERN = /[\p{L}\p{N}\p{M}]+|\p{Extended_Pictographic}/gu;
+const CJK_RUN = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+$/u;
+// Emoji variation selectors and skin tone modifiers, ignored when matching
+const EMOJI_MODIFIERS = /[\uFE0E\uFE0F\u{1F3FB}-\u{1F3FF}]/gu;
+
+let wordSegmenter: Intl.Segmenter | null | undefined;
+
+/**
+ * Split text into words. Uses `Intl.Segmenter` where available, which
+ * knows where words end in scripts written without spaces (Chinese,
+ * Japanese, Thai); otherwise falls back to letter runs, splitting
+ * Chinese and Japanese into single characters. Emoji count as words.
+ */
+function segmentWords(text: string): string[] {
+  if (wordSegmenter === undefined) {
+    wordSegmenter =
+      typeof Intl !== 'undefined' && 'Segmenter' in Intl ? new Intl.Segmenter(undefined, { granularity: 'word' }) : null;
+  }
+  const words: string[] = [];
+  const addRun = (run: string) => {
+    for (const word of run.match(WORD_PATTERN) ?? []) {
+      if (!wordSegmenter && CJK_RUN.test(word)) words.push(...Array.from(word));
+      else words.push(word);
+    }
+  };
+  if (!wordSegmenter) {
+    addRun(text.replace(EMOJI_MODIFIERS, ''));
+    return words;
+  }
+  for (const { segment, isWordLike } of wordSegmenter.segment(text)) {
+    if (isWordLike || /\p{Extended_Pictographic}/u.test(segment)) addRun(segment.replace(EMOJI_MODIFIERS, ''));
+  }
+  return words;
+}
+
+/**
+ * Strip the first of `suffixes` (longest first) that leaves a stem of
+ * at least `minStem` characters. The building block of the light
+ * stemmers below, which remove inflections (plural, gender, case)
+ * rather than derivations.
+ */
+function stripSuffix(token: string, suffixes: string[], minStem: number): string {
+  const suffix = suffixes.find((s) => token.endsWith(s) && token.length - s.length >= minStem);
+  return suffix ? token.slice(0, -suffix.length) : token;
+}
 
 /**
  * Apply a very simple stemming algorithm to a token. Removes common
- * suffixes such as 'ing', 'ed', and plural 's'. This is not meant
- * to replace full stemming algorithms but helps align obvious
- * variations.
+ * suffixes such as 'ing', 'ed', and plural 's'. Superseded by
+ * `porter2Stem`; kept as the `en-simple` language for sessions that
+ * want the original matching.
  */
 function simpleStem(token: string): string {
   if (token.endsWith('ing') && token.length > 4) {
@@ -79,46 +273,536 @@ function simpleStem(token: string): string {
   return token;
 }
 
+// Words the Porter2 rules would get wrong, with their stems
+const PORTER2_EXCEPTIONS = new Map<string, string>([
+  ['skis', 'ski'],
+  ['skies', 'sky'],
+  ['dying', 'die'],
+  ['lying', 'lie'],
+  ['tying', 'tie'],
+  ['idly', 'idl'],
+  ['gently', 'gentl'],
+  ['ugly', 'ugli'],
+  ['early', 'earli'],
+  ['only', 'onli'],
+  ['singly', 'singl'],
+  ['sky', 'sky'],
+  ['news', 'news'],
+  ['howe', 'howe'],
+  ['atlas', 'atlas'],
+  ['cosmos', 'cosmos'],
+  ['bias', 'bias'],
+  ['andes', 'andes'],
+]);
+
+// Left alone once step 1a has run
+const PORTER2_STEP1A_INVARIANTS = new Set(['inning', 'outing', 'canning', 'herring', 'earring', 'proceed', 'exceed', 'succeed']);
+
+// Suffix replacements for steps 2 and 3, longest first
+const PORTER2_STEP2: [string, string][] = [
+  ['ization', 'ize'],
+  ['ational', 'ate'],
+  ['fulness', 'ful'],
+  ['ousness', 'ous'],
+  ['iveness', 'ive'],
+  ['tional', 'tion'],
+  ['biliti', 'ble'],
+  ['lessli', 'less'],
+  ['entli', 'ent'],
+  ['ation', 'ate'],
+  ['alism', 'al'],
+  ['aliti', 'al'],
+  ['ousli', 'ous'],
+  ['iviti', 'ive'],
+  ['fulli', 'ful'],
+  ['enci', 'ence'],
+  ['anci', 'ance'],
+  ['abli', 'able'],
+  ['izer', 'ize'],
+  ['ator', 'ate'],
+  ['alli', 'al'],
+  ['bli', 'ble'],
+  ['ogi', 'og'],
+  ['li', ''],
+];
+const PORTER2_STEP3: [string, string][] = [
+  ['ational', 'ate'],
+  ['tional', 'tion'],
+  ['alize', 'al'],
+  ['icate', 'ic'],
+  ['iciti', 'ic'],
+  ['ative', ''],
+  ['ical', 'ic'],
+  ['ness', ''],
+  ['ful', ''],
+];
+// Suffixes removed in step 4, longest first
+const PORTER2_STEP4 = [
+  'ement',
+  'ance', 'ence', 'able', 'ible', 'ment',
+  'ant', 'ent', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize', 'ion',
+  'al', 'er', 'ic',
+];
+
+const isPorterVowel = (ch: string | undefined) => ch !== undefined && 'aeiouy'.includes(ch);
+
 /**
- * Tokenize free‑form text by lowercasing, removing non‑alphanumeric
- * characters, splitting on whitespace, dropping stopwords, and
- * applying simple stemming. Returns an array of tokens.
+ * Stem an English word with the Snowball English ("Porter2")
+ * algorithm, https://snowballstem.org/algorithms/english/stemmer.html.
+ * Expects a lowercase word; "hiking" and "hikes" both become "hike",
+ * "running" and "runs" become "run". Irregular forms ("ran") are not
+ * handled, as no suffix-stripping stemmer can.
  */
-export function tokenize(text: string): string[] {
-  const cleaned = text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ');
-  const rawTokens = cleaned.split(/\s+/).filter((t) => t.length > 0);
-  const processed = rawTokens
-    .filter((t) => !STOP_WORDS.has(t))
-    .map((t) => simpleStem(t));
-  return processed;
+export function porter2Stem(token: string): string {
+  if (token.length <= 2) return token;
+  let word = token.replace(/^'/, '');
+  const exception = PORTER2_EXCEPTIONS.get(word);
+  if (exception) return exception;
+  // Mark consonant y (initial, or after a vowel) as Y
+  word = word.replace(/^y/, 'Y').replace(/([aeiouy])y/g, '$1Y');
+
+  // R1 follows the first non-vowel after a vowel, R2 the next such one
+  const regionAfter = (from: number) => {
+    for (let i = Math.max(from, 0) + 1; i < word.length; i++) {
+      if (isPorterVowel(word[i - 1]) && !isPorterVowel(word[i])) return i + 1;
+    }
+    return word.length;
+  };
+  const prefix = ['gener', 'commun', 'arsen'].find((p) => word.startsWith(p));
+  const r1 = prefix ? prefix.length : regionAfter(0);
+  const r2 = regionAfter(r1);
+  const inR1 = (suffix: string) => word.length - suffix.length >= r1;
+  const inR2 = (suffix: string) => word.length - suffix.length >= r2;
+  const endsWithShortSyllable = (w: string) =>
+    (w.length === 2 && isPorterVowel(w[0]) && !isPorterVowel(w[1])) ||
+    (w.length > 2 && !isPorterVowel(w[w.length - 3]) && isPorterVowel(w[w.length - 2]) && !'aeiouywxY'.includes(w[w.length - 1]));
+  const isShort = (w: string) => r1 >= w.length && endsWithShortSyllable(w);
+  const containsVowel = (w: string) => /[aeiouy]/.test(w);
+
+  // Step 0: possessives
+  word = word.replace(/'s'$|'s$|'$/, '');
+
+  // Step 1a: plurals
+  if (word.endsWith('sses')) {
+    word = word.slice(0, -2);
+  } else if (word.endsWith('ied') || word.endsWith('ies')) {
+    word = word.slice(0, word.length > 4 ? -2 : -1);
+  } else if (word.endsWith('us') || word.endsWith('ss')) {
+    // Left alone
+  } else if (word.endsWith('s') && containsVowel(word.slice(0, -2))) {
+    word = word.slice(0, -1);
+  }
+  if (PORTER2_STEP1A_INVARIANTS.has(word)) return word;
+
+  // Step 1b: -ed and -ing forms
+  const step1b = ['eedly', 'ingly', 'edly', 'eed', 'ing', 'ed'].find((s) => word.endsWith(s));
+  if (step1b === 'eed' || step1b === 'eedly') {
+    if (inR1(step1b)) word = `${word.slice(0, -step1b.length)}ee`;
+  } else if (step1b && containsVowel(word.slice(0, -step1b.length))) {
+    word = word.slice(0, -step1b.length);
+    if (/(at|bl|iz)$/.test(word)) word += 'e';
+    else if (/(bb|dd|ff|gg|mm|nn|pp|rr|tt)$/.test(word)) word = word.slice(0, -1);
+    else if (isShort(word)) word += 'e';
+  }
+
+  // Step 1c: final y after a consonant (not the first letter) becomes i
+  if (/[yY]$/.test(word) && word.length > 2 && !isPorterVowel(word[word.length - 2])) {
+    word = `${word.slice(0, -1)}i`;
+  }
+
+  // Steps 2 and 3: derivational suffixes in R1
+  const step2 = PORTER2_STEP2.find(([s]) => word.endsWith(s));
+  if (step2 && inR1(step2[0])) {
+    const [suffix, replacement] = step2;
+    const before = word[word.length - suffix.length - 1];
+    if (suffix === 'ogi' ? before === 'l' : suffix === 'li' ? 'cdeghkmnrt'.includes(before ?? ' ') : true) {
+      word = word.slice(0, -suffix.length) + replacement;
+    }
+  }
+  const step3 = PORTER2_STEP3.find(([s]) => word.endsWith(s));
+  if (step3 && inR1(step3[0]) && (step3[0] !== 'ative' || inR2(step3[0]))) {
+    word = word.slice(0, -step3[0].length) + step3[1];
+  }
+
+  // Step 4: suffixes in R2
+  const step4 = PORTER2_STEP4.find((s) => word.endsWith(s));
+  if (step4 && inR2(step4) && (step4 !== 'ion' || /[st]$/.test(word.slice(0, -3)))) {
+    word = word.slice(0, -step4.length);
+  }
+
+  // Step 5: final e and ll
+  if (word.endsWith('e') && (inR2('e') || (inR1('e') && !endsWithShortSyllable(word.slice(0, -1))))) {
+    word = word.slice(0, -1);
+  } else if (word.endsWith('ll') && inR2('l')) {
+    word = word.slice(0, -1);
+  }
+  return word.replace(/Y/g, 'y');
+}
+
+const ENGLISH_STOP_WORDS = 'the a an and or but if on in with to for of by is are am be was were this that'.split(' ');
+
+registerTextLanguage({ code: 'en', name: 'English', stopWords: ENGLISH_STOP_WORDS, stem: porter2Stem });
+registerTextLanguage({ code: 'en-simple', name: 'English (simple stemming)', stopWords: ENGLISH_STOP_WORDS, stem: simpleStem });
+registerTextLanguage({
+  code: 'es',
+  name: 'Español',
+  stopWords: ('el la lo los las un una unos unas y e o u pero si en con a de del al por para es son soy eres era fue ' +
+    'ser estar estoy está este esta esto eso que como mi mis tu tus su sus me te se le les nos muy más sin sobre ya')
+    .split(' '),
+  stem: (token) => stripSuffix(stripSuffix(token, ['es', 'os', 'as', 's'], 3), ['o', 'a', 'e'], 3),
+});
+registerTextLanguage({
+  code: 'fr',
+  name: 'Français',
+  stopWords: ('le la les un une des et ou mais si en dans avec à au aux de du par pour sur est sont suis es être était ' +
+    'ce cet cette ces que qui je tu il elle on nous vous ils elles mon ma mes ton ta tes son sa ses ne pas plus très ' +
+    'y l d j m n s t c qu')
+    .split(' '),
+  stem: (token) => stripSuffix(stripSuffix(token, ['x', 's'], 3), ['e'], 3),
+});
+registerTextLanguage({
+  code: 'de',
+  name: 'Deutsch',
+  stopWords: ('der die das den dem des ein eine einer eines einem einen und oder aber wenn in im an am auf mit zu zum ' +
+    'zur von vom für bei ist sind bin bist war waren sein ich du er sie es wir ihr mein meine dein deine nicht auch ' +
+    'sehr als wie so dass')
+    .split(' '),
+  stem: (token) => stripSuffix(token, ['ern', 'em', 'en', 'er', 'es', 'e', 's', 'n'], 3),
+});
+registerTextLanguage({
+  code: 'it',
+  name: 'Italiano',
+  stopWords: ('il lo la i gli le un uno una e ed o ma se in nel nella con a al alla di del della da per su è sono ero ' +
+    'essere che come mio mia miei mie tuo tua suo sua mi ti si ci non molto più l d')
+    .split(' '),
+  stem: (token) => stripSuffix(token, ['i', 'e', 'a', 'o'], 3),
+});
+registerTextLanguage({
+  code: 'pt',
+  name: 'Português',
+  stopWords: ('o a os as um uma uns umas e ou mas se em no na nos nas com de do da dos das por para pelo pela é sou ' +
+    'era foi ser estar que como meu minha meus minhas seu sua seus suas me te lhe não muito mais')
+    .split(' '),
+  stem: (token) => stripSuffix(stripSuffix(token, ['s'], 3), ['o', 'a', 'e'], 3),
+});
+registerTextLanguage({
+  code: 'ru',
+  name: 'Русский',
+  stopWords: ('и в во не что он на я с со как а то все она так его но да ты к у же вы за бы по только ее мне было ' +
+    'вот от меня еще нет о из ему когда даже ну ли если уже или ни быть был до вас там мы их для это этот')
+    .split(' '),
+  stem: (token) =>
+    stripSuffix(
+      token,
+      ['ами', 'ями', 'ого', 'его', 'ому', 'ему', 'ыми', 'ими', 'ой', 'ей', 'ий', 'ый', 'ая', 'яя', 'ое', 'ее', 'ые', 'ие',
+        'ом', 'ем', 'ах', 'ях', 'ам', 'ям', 'ов', 'ев', 'а', 'я', 'о', 'е', 'ы', 'и', 'у', 'ю', 'ь'],
+      3,
+    ),
+});
+registerTextLanguage({ code: 'none', name: 'Any language (no stopwords or stemming)', stopWords: [] });
+
+/**
+ * A token together with the word it came from, so explanations can
+ * show "hiking" rather than the stem "hik".
+ */
+export interface SurfaceToken {
+  token: string;
+  surface: string;
 }
 
 /**
- * Compute the weighted Jaccard similarity between two sets of tag
- * items. The `value` property is normalised to lowercase for
- * comparison. Returns 0 if both sets are empty. See spec for formula.
+ * Tokenize free‑form text like `tokenize`, keeping each token's
+ * original (lowercased) word.
  */
-export function weightedJaccard(a: TagItem[], b: TagItem[]): number {
-  const mapA = new Map<string, number>();
-  const mapB = new Map<string, number>();
-  for (const item of a) {
-    const key = item.value.trim().toLowerCase();
-    // If duplicate tag appears, keep the max weight
-    mapA.set(key, Math.max(mapA.get(key) ?? 0, item.weight));
+export function tokenizeWithSurface(text: string, language: string = DEFAULT_TEXT_LANGUAGE): SurfaceToken[] {
+  const { stopWords, stem } = textLanguage(language);
+  return segmentWords(text.normalize('NFKC').toLowerCase())
+    .map((surface) => ({ surface, folded: foldText(surface) }))
+    .filter(({ folded }) => !stopWords.has(folded))
+    .map(({ surface, folded }) => ({ token: stem(folded), surface }));
+}
+
+/**
+ * Tokenize free‑form text: normalise and fold it (see `foldText`),
+ * split it into words in any script (see `segmentWords`), drop the
+ * language's stopwords and stem what is left. Returns an array of
+ * tokens. `language` is a code registered with `registerTextLanguage`.
+ */
+export function tokenize(text: string, language: string = DEFAULT_TEXT_LANGUAGE): string[] {
+  return tokenizeWithSurface(text, language).map((t) => t.token);
+}
+
+/**
+ * Normalise a tag value for comparison: fold case and diacritics,
+ * fold punctuation and symbols away (so "LGBTQ+" and "lgbtq" or
+ * "non-binary" and "nonbinary" meet) and stem each word with the
+ * language's stemmer. Synonyms are not applied here; see
+ * `createTagCanonicaliser`.
+ */
+export function normaliseTag(value: string, language: string = DEFAULT_TEXT_LANGUAGE): string {
+  const { stem } = textLanguage(language);
+  const folded = foldText(value)
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\p{M}\s]/gu, '')
+    .split(/\s+/)
+    .filter((word) => word.length > 0)
+    .map((word) => stem(word))
+    .join(' ');
+  // Tags made only of symbols (e.g. emoji) are compared as typed
+  return folded || value.trim().toLowerCase();
+}
+
+/**
+ * Maps tag values to canonical keys for matching, and keys to the
+ * label shown in explanations.
+ */
+export interface TagCanonicaliser {
+  key(value: string): string;
+  /** Display label for a key, or undefined when the key is not part of a synonym group. */
+  label(key: string): string | undefined;
+}
+
+/**
+ * Build a canonicaliser from `DEFAULT_TAG_SYNONYMS` plus `extraGroups`.
+ * Groups sharing a member are merged, and every member maps to the
+ * key of the first group's first entry. Tags are stemmed with the
+ * stemmer of `language`.
+ */
+export function createTagCanonicaliser(
+  extraGroups: string[][] = [],
+  language: string = DEFAULT_TEXT_LANGUAGE,
+): TagCanonicaliser {
+  // Union-find over normalised members so overlapping groups merge
+  const parent = new Map<string, string>();
+  const find = (k: string): string => {
+    let root = k;
+    while (parent.get(root) !== root) root = parent.get(root) as string;
+    parent.set(k, root);
+    return root;
+  };
+  const labels = new Map<string, string>();
+  [...DEFAULT_TAG_SYNONYMS, ...extraGroups].forEach((group) => {
+    const keys = group.map((member) => normaliseTag(member, language)).filter((k) => k.length > 0);
+    if (keys.length === 0) return;
+    keys.forEach((k) => {
+      if (!parent.has(k)) parent.set(k, k);
+    });
+    const root = find(keys[0]);
+    if (!labels.has(root)) labels.set(root, group[0].trim().toLowerCase());
+    keys.slice(1).forEach((k) => {
+      const other = find(k);
+      // The earlier group's root wins so built-in labels stay stable
+      if (other !== root) parent.set(other, root);
+    });
+  });
+  return {
+    key: (value) => {
+      const k = normaliseTag(value, language);
+      return parent.has(k) ? find(k) : k;
+    },
+    label: (key) => labels.get(key),
+  };
+}
+
+const DEFAULT_CANONICALISER = createTagCanonicaliser();
+const languageCanonicalisers = new Map<string, TagCanonicaliser>([[DEFAULT_TEXT_LANGUAGE, DEFAULT_CANONICALISER]]);
+const canonicaliserCache = new WeakMap<string[][], Map<string, TagCanonicaliser>>();
+
+/**
+ * Return the canonicaliser for a config's synonym groups and language,
+ * reusing it across calls with the same config object.
+ */
+export function canonicaliserFor(config: SimilarityConfig): TagCanonicaliser {
+  const language = config.language ?? DEFAULT_TEXT_LANGUAGE;
+  let byLanguage = languageCanonicalisers;
+  if (config.tagSynonyms.length > 0) {
+    byLanguage = canonicaliserCache.get(config.tagSynonyms) ?? new Map();
+    canonicaliserCache.set(config.tagSynonyms, byLanguage);
   }
-  for (const item of b) {
-    const key = item.value.trim().toLowerCase();
-    mapB.set(key, Math.max(mapB.get(key) ?? 0, item.weight));
+  let canonicaliser = byLanguage.get(language);
+  if (!canonicaliser) {
+    canonicaliser = createTagCanonicaliser(config.tagSynonyms, language);
+    byLanguage.set(language, canonicaliser);
   }
+  return canonicaliser;
+}
+
+/**
+ * Share of an exact match's credit given to two different tags per
+ * step from the farther one to their closest common ancestor: a parent
+ * and its child, or two siblings, get half; cousins a quarter.
+ */
+export const TAXONOMY_CREDIT = 0.5;
+
+/**
+ * A tag taxonomy compiled for matching, over canonical tag keys.
+ */
+export interface TagTaxonomy {
+  /** The key followed by its ancestors, nearest first; just the key for tags outside the taxonomy. */
+  path(key: string): string[];
+  /** The tag as written in the taxonomy. */
+  label(key: string): string;
+}
+
+/**
+ * Compile taxonomy nodes, keying each tag with `canonicaliser` so
+ * synonyms and spelling variants land on the same node. A tag listed
+ * more than once keeps its first position; children under the later
+ * copies are attached to it.
+ */
+export function createTagTaxonomy(
+  nodes: TagTaxonomyNode[],
+  canonicaliser: TagCanonicaliser = DEFAULT_CANONICALISER,
+): TagTaxonomy {
+  const parents = new Map<string, string | null>();
+  const labels = new Map<string, string>();
+  const visit = (node: TagTaxonomyNode, parent: string | null) => {
+    const key = canonicaliser.key(node.tag);
+    if (!key) return;
+    if (!parents.has(key)) {
+      parents.set(key, parent);
+      labels.set(key, node.tag.trim());
+    }
+    (node.children ?? []).forEach((child) => visit(child, key));
+  };
+  nodes.forEach((node) => visit(node, null));
+  return {
+    path: (key) => {
+      const path = [key];
+      for (let parent = parents.get(key); parent; parent = parents.get(parent)) path.push(parent);
+      return path;
+    },
+    label: (key) => labels.get(key) ?? key,
+  };
+}
+
+const taxonomyCache = new WeakMap<TagTaxonomyNode[], WeakMap<TagCanonicaliser, TagTaxonomy>>();
+
+/**
+ * Return the compiled taxonomy for a config, or undefined when it has
+ * none, reusing it across calls with the same config object.
+ */
+export function taxonomyFor(config: SimilarityConfig): TagTaxonomy | undefined {
+  if (!config.tagTaxonomy || config.tagTaxonomy.length === 0) return undefined;
+  const canonicaliser = canonicaliserFor(config);
+  let byCanonicaliser = taxonomyCache.get(config.tagTaxonomy);
+  if (!byCanonicaliser) {
+    byCanonicaliser = new WeakMap();
+    taxonomyCache.set(config.tagTaxonomy, byCanonicaliser);
+  }
+  let taxonomy = byCanonicaliser.get(canonicaliser);
+  if (!taxonomy) {
+    taxonomy = createTagTaxonomy(config.tagTaxonomy, canonicaliser);
+    byCanonicaliser.set(canonicaliser, taxonomy);
+  }
+  return taxonomy;
+}
+
+/**
+ * Collect tags by canonical key, keeping the max weight for
+ * duplicates and the first value seen as the display label.
+ */
+function collectTags(items: TagItem[], canonicaliser: TagCanonicaliser): Map<string, { weight: number; label: string }> {
+  const map = new Map<string, { weight: number; label: string }>();
+  for (const item of items) {
+    const key = canonicaliser.key(item.value);
+    if (!key) continue;
+    const current = map.get(key);
+    map.set(key, {
+      weight: Math.max(current?.weight ?? 0, item.weight),
+      label: current?.label ?? canonicaliser.label(key) ?? item.value.trim().toLowerCase(),
+    });
+  }
+  return map;
+}
+
+/**
+ * A tag only A listed and a tag only B listed under a common taxonomy
+ * ancestor, with the partial credit the pair earns.
+ */
+interface AncestorMatch {
+  keyA: string;
+  keyB: string;
+  ancestor: string;
+  credit: number;
+}
+
+/**
+ * Pair the tags only one side listed with tags only the other side
+ * listed under the same taxonomy ancestor. Each pair earns
+ * `TAXONOMY_CREDIT` per step to the closest common ancestor times the
+ * smaller of the two (rarity-scaled) weights. Pairs are taken best
+ * first and each tag is used at most once.
+ */
+function matchAncestors(
+  mapA: Map<string, { weight: number }>,
+  mapB: Map<string, { weight: number }>,
+  taxonomy: TagTaxonomy,
+  rarity?: TagRarity,
+): AncestorMatch[] {
+  const scaled = (map: Map<string, { weight: number }>, key: string) =>
+    (map.get(key) as { weight: number }).weight * (rarity ? rarity(key) : 1);
+  const onlyB = Array.from(mapB.keys())
+    .filter((key) => !mapA.has(key))
+    .map((key) => ({ key, path: taxonomy.path(key) }));
+  const candidates: AncestorMatch[] = [];
+  mapA.forEach((_, keyA) => {
+    if (mapB.has(keyA)) return;
+    const pathA = taxonomy.path(keyA);
+    onlyB.forEach(({ key: keyB, path: pathB }) => {
+      const stepsA = pathA.findIndex((key) => pathB.includes(key));
+      if (stepsA < 0) return;
+      const steps = Math.max(stepsA, pathB.indexOf(pathA[stepsA]));
+      const credit = TAXONOMY_CREDIT ** steps * Math.min(scaled(mapA, keyA), scaled(mapB, keyB));
+      candidates.push({ keyA, keyB, ancestor: pathA[stepsA], credit });
+    });
+  });
+  const usedA = new Set<string>();
+  const usedB = new Set<string>();
+  return candidates
+    .sort((x, y) => y.credit - x.credit)
+    .filter(({ keyA, keyB }) => {
+      if (usedA.has(keyA) || usedB.has(keyB)) return false;
+      usedA.add(keyA);
+      usedB.add(keyB);
+      return true;
+    });
+}
+
+/**
+ * Compute the weighted Jaccard similarity between two sets of tag
+ * items. Values are matched by their canonical key (see
+ * `createTagCanonicaliser`); duplicates keep their max weight. With
+ * `rarity`, each tag's weights are scaled by its factor, so sharing a
+ * rare tag counts for more than sharing a common one. With `taxonomy`,
+ * different tags under a common ancestor add partial credit to the
+ * numerator (see `matchAncestors`). Returns 0 if both sets are empty.
+ * See spec for formula.
+ */
+export function weightedJaccard(
+  a: TagItem[],
+  b: TagItem[],
+  canonicaliser: TagCanonicaliser = DEFAULT_CANONICALISER,
+  rarity?: TagRarity,
+  taxonomy?: TagTaxonomy,
+): number {
+  const mapA = collectTags(a, canonicaliser);
+  const mapB = collectTags(b, canonicaliser);
   const allKeys = new Set<string>([...mapA.keys(), ...mapB.keys()]);
   if (allKeys.size === 0) return 0;
   let numerator = 0;
   let denominator = 0;
   for (const key of allKeys) {
-    const wA = mapA.get(key) ?? 0;
-    const wB = mapB.get(key) ?? 0;
-    numerator += Math.min(wA, wB);
-    denominator += Math.max(wA, wB);
+    const factor = rarity ? rarity(key) : 1;
+    const wA = mapA.get(key)?.weight ?? 0;
+    const wB = mapB.get(key)?.weight ?? 0;
+    numerator += Math.min(wA, wB) * factor;
+    denominator += Math.max(wA, wB) * factor;
+  }
+  if (taxonomy) {
+    matchAncestors(mapA, mapB, taxonomy, rarity).forEach(({ credit }) => {
+      numerator += credit;
+    });
   }
   return denominator === 0 ? 0 : numerator / denominator;
 }
@@ -140,94 +824,293 @@ export function textJaccard(aTokens: string[], bTokens: string[]): number {
   return unionSize === 0 ? 0 : intersection / unionSize;
 }
 
+export const jaccardTextStrategy: TextSimilarityStrategy = { name: 'jaccard', similarity: textJaccard };
+
+/**
+ * Build the corpus statistics for a set of identities, typically every
+ * participant in a session. Text is tokenized in the config's language
+ * and tags are keyed with its canonicaliser, matching how pairs are
+ * scored.
+ */
+export function buildSimilarityCorpus(
+  identities: Identity[],
+  config: SimilarityConfig = DEFAULT_SIMILARITY_CONFIG,
+): SimilarityCorpus {
+  const canonicaliser = canonicaliserFor(config);
+  const documentFrequency = new Map<string, number>();
+  const tagFrequency = new Map<string, number>();
+  let documentCount = 0;
+  let tagDocumentCount = 0;
+  identities.forEach((identity) => {
+    const tagKeys = new Set<string>();
+    (['GIVEN', 'CHOSEN', 'CORE'] as Lens[]).forEach((lens) => {
+      (identity.tags[lens] ?? []).forEach((item) => {
+        const key = canonicaliser.key(item.value);
+        if (key) tagKeys.add(key);
+      });
+      const tokens = (identity.texts[lens] ?? []).flatMap((t) => tokenize(t, config.language));
+      if (tokens.length === 0) return;
+      documentCount++;
+      new Set(tokens).forEach((token) => {
+        documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+      });
+    });
+    if (tagKeys.size === 0) return;
+    tagDocumentCount++;
+    tagKeys.forEach((key) => tagFrequency.set(key, (tagFrequency.get(key) ?? 0) + 1));
+  });
+  return { documentCount, documentFrequency, tagDocumentCount, tagFrequency };
+}
+
+/**
+ * Whether scoring with `config` needs a session corpus.
+ */
+export function needsCorpus(config: SimilarityConfig): boolean {
+  return config.textStrategy === 'tfidf' || config.tagRarity;
+}
+
+// Smoothed IDF, ln((1 + N) / (1 + df)) + 1: always at least 1, and
+// defined for terms missing from the corpus
+function smoothedIdf(documentCount: number, frequency: number): number {
+  return Math.log((1 + documentCount) / (1 + frequency)) + 1;
+}
+
+/**
+ * Return the tag rarity factors for a config: the smoothed IDF of each
+ * tag over the session's participants, or undefined (every tag counts
+ * the same) when `tagRarity` is off or no corpus is available.
+ */
+export function tagRarityFor(config: SimilarityConfig, corpus?: SimilarityCorpus): TagRarity | undefined {
+  if (!config.tagRarity || !corpus) return undefined;
+  return (key) => smoothedIdf(corpus.tagDocumentCount, corpus.tagFrequency.get(key) ?? 0);
+}
+
+/**
+ * Create a TF-IDF cosine strategy over a session corpus. Terms that
+ * many participants use count for less than distinctive ones. Uses
+ * smoothed IDF, ln((1 + N) / (1 + df)) + 1, so terms missing from the
+ * corpus still get a weight. Returns 0 when either side has no
+ * tokens.
+ */
+export function createTfidfStrategy(corpus: SimilarityCorpus): TextSimilarityStrategy {
+  const idf = (token: string) => smoothedIdf(corpus.documentCount, corpus.documentFrequency.get(token) ?? 0);
+  const vectorise = (tokens: string[]) => {
+    const counts = new Map<string, number>();
+    tokens.forEach((t) => counts.set(t, (counts.get(t) ?? 0) + 1));
+    const vector = new Map<string, number>();
+    counts.forEach((count, token) => vector.set(token, count * idf(token)));
+    return vector;
+  };
+  return {
+    name: 'tfidf',
+    similarity(aTokens, bTokens) {
+      if (aTokens.length === 0 || bTokens.length === 0) return 0;
+      const a = vectorise(aTokens);
+      const b = vectorise(bTokens);
+      let dot = 0;
+      a.forEach((weight, token) => {
+        dot += weight * (b.get(token) ?? 0);
+      });
+      const norm = (v: Map<string, number>) => Math.sqrt(Array.from(v.values()).reduce((sum, w) => sum + w * w, 0));
+      const denominator = norm(a) * norm(b);
+      return denominator === 0 ? 0 : dot / denominator;
+    },
+  };
+}
+
+const tfidfCache = new WeakMap<SimilarityCorpus, TextSimilarityStrategy>();
+
+/**
+ * Pick the text strategy for a config. Corpus-based strategies fall
+ * back to Jaccard when no corpus is available.
+ */
+export function textStrategyFor(config: SimilarityConfig, corpus?: SimilarityCorpus): TextSimilarityStrategy {
+  if (config.textStrategy === 'tfidf' && corpus) {
+    let strategy = tfidfCache.get(corpus);
+    if (!strategy) {
+      strategy = createTfidfStrategy(corpus);
+      tfidfCache.set(corpus, strategy);
+    }
+    return strategy;
+  }
+  return jaccardTextStrategy;
+}
+
 /**
  * Compute the per‑lens similarity score combining weighted Jaccard
- * (tags) and text Jaccard (texts) according to the formula:
- * S_L = 0.7 * J_w + 0.3 * textJaccard.
+ * (tags) and the text strategy's score (texts) according to the
+ * formula: S_L = tagBlend * J_w + (1 - tagBlend) * S_text. The two
+ * sub-scores are returned alongside the blend.
+ */
+function computeLensSimilarity(
+  a: TagItem[],
+  aTexts: string[],
+  b: TagItem[],
+  bTexts: string[],
+  tagBlend: number,
+  canonicaliser: TagCanonicaliser,
+  textStrategy: TextSimilarityStrategy,
+  rarity?: TagRarity,
+  taxonomy?: TagTaxonomy,
+): { score: number; tagScore: number; textScore: number } {
+  const tagScore = weightedJaccard(a, b, canonicaliser, rarity, taxonomy);
+  const textScore = textStrategy.similarity(aTexts, bTexts);
+  return { score: tagBlend * tagScore + (1 - tagBlend) * textScore, tagScore, textScore };
+}
+
+/**
+ * Build the free-text part of a lens explanation: terms and two-word
+ * phrases both sides used and terms only one side used. Terms are
+ * matched by stem and reported by the first surface form seen, each
+ * list capped at a handful of entries. Phrases are adjacent tokens
+ * within a single text, after stopword removal.
  */
-function computeLensSimilarity(a: TagItem[], aTexts: string[], b: TagItem[], bTexts: string[]): number {
-  const jw = weightedJaccard(a, b);
-  const tj = textJaccard(aTexts, bTexts);
-  return 0.7 * jw + 0.3 * tj;
+function explainText(
+  aTexts: SurfaceToken[][],
+  bTexts: SurfaceToken[][],
+): { sharedTerms: string[]; sharedPhrases: string[]; uniqueTermsA: string[]; uniqueTermsB: string[] } {
+  const surfaces = new Map<string, string>();
+  const terms = (texts: SurfaceToken[][]) => {
+    const set = new Set<string>();
+    texts.flat().forEach(({ token, surface }) => {
+      set.add(token);
+      if (!surfaces.has(token)) surfaces.set(token, surface);
+    });
+    return set;
+  };
+  const phrases = (texts: SurfaceToken[][]) => {
+    const map = new Map<string, string>();
+    texts.forEach((tokens) => {
+      for (let i = 0; i + 1 < tokens.length; i++) {
+        const key = `${tokens[i].token} ${tokens[i + 1].token}`;
+        if (!map.has(key)) map.set(key, `${tokens[i].surface} ${tokens[i + 1].surface}`);
+      }
+    });
+    return map;
+  };
+  const termsA = terms(aTexts);
+  const termsB = terms(bTexts);
+  const phrasesB = phrases(bTexts);
+  const label = (token: string) => surfaces.get(token) as string;
+  return {
+    sharedTerms: Array.from(termsA).filter((t) => termsB.has(t)).map(label).slice(0, MAX_EXPLAINED_TERMS),
+    sharedPhrases: Array.from(phrases(aTexts).entries())
+      .filter(([key]) => phrasesB.has(key))
+      .map(([, phrase]) => phrase)
+      .slice(0, MAX_EXPLAINED_TERMS),
+    uniqueTermsA: Array.from(termsA).filter((t) => !termsB.has(t)).map(label).slice(0, MAX_EXPLAINED_TERMS),
+    uniqueTermsB: Array.from(termsB).filter((t) => !termsA.has(t)).map(label).slice(0, MAX_EXPLAINED_TERMS),
+  };
 }
 
 /**
  * Build an explanation object for a lens. It lists overlapping tags,
  * tags unique to each participant, and tags with the highest weights
- * across both participants (topWeights). Tag values are returned
- * lowercased and deduplicated.
+ * across both participants (topWeights), scaled by `rarity` when
+ * given so distinctive tags come first. With a taxonomy it also names
+ * the common ancestors of related tags ("you both listed something
+ * under Music"). Tags are matched with the same canonicaliser as
+ * `weightedJaccard`; a synonym group is reported under its first
+ * entry, other tags under their lowercased value.
  */
-function explainLens(a: TagItem[], b: TagItem[]): {
+function explainLens(
+  a: TagItem[],
+  b: TagItem[],
+  canonicaliser: TagCanonicaliser,
+  rarity?: TagRarity,
+  taxonomy?: TagTaxonomy,
+): {
   overlap: string[];
   uniqueA: string[];
   uniqueB: string[];
   topWeights: string[];
+  sharedAncestors: string[];
 } {
-  const mapA = new Map<string, number>();
-  const mapB = new Map<string, number>();
-  for (const item of a) {
-    const key = item.value.trim().toLowerCase();
-    mapA.set(key, Math.max(mapA.get(key) ?? 0, item.weight));
-  }
-  for (const item of b) {
-    const key = item.value.trim().toLowerCase();
-    mapB.set(key, Math.max(mapB.get(key) ?? 0, item.weight));
-  }
+  const mapA = collectTags(a, canonicaliser);
+  const mapB = collectTags(b, canonicaliser);
   const allKeys = new Set<string>([...mapA.keys(), ...mapB.keys()]);
   const overlap: string[] = [];
   const uniqueA: string[] = [];
   const uniqueB: string[] = [];
   const weightMap = new Map<string, number>();
   for (const key of allKeys) {
-    const wA = mapA.get(key) ?? 0;
-    const wB = mapB.get(key) ?? 0;
-    if (wA > 0 && wB > 0) overlap.push(key);
-    else if (wA > 0) uniqueA.push(key);
-    else uniqueB.push(key);
-    weightMap.set(key, Math.max(wA, wB));
+    const entryA = mapA.get(key);
+    const entryB = mapB.get(key);
+    const label = (entryA ?? entryB)!.label;
+    if (entryA && entryB) overlap.push(label);
+    else if (entryA) uniqueA.push(label);
+    else uniqueB.push(label);
+    weightMap.set(label, Math.max(entryA?.weight ?? 0, entryB?.weight ?? 0) * (rarity ? rarity(key) : 1));
   }
   // Determine top weighted tags (max 3) by descending weight
   const topWeights = Array.from(weightMap.entries())
     .sort(([, w1], [, w2]) => w2 - w1)
     .slice(0, 3)
     .map(([k]) => k);
-  return { overlap, uniqueA, uniqueB, topWeights };
+  const sharedAncestors = taxonomy
+    ? Array.from(new Set(matchAncestors(mapA, mapB, taxonomy, rarity).map(({ ancestor }) => taxonomy.label(ancestor))))
+    : [];
+  return { overlap, uniqueA, uniqueB, topWeights, sharedAncestors };
 }
 
 /**
  * Compute similarity across all three lenses and an overall score.
  * Returns scores per lens, the aggregated overall score, and
- * explanations containing overlapping/unique tags and top weights.
+ * explanations containing overlapping/unique tags, top weights,
+ * shared and unique text terms, and the tag and text sub-scores.
+ * `config` defaults to `DEFAULT_SIMILARITY_CONFIG`; `corpus` is only
+ * needed by corpus-based text strategies (see `textStrategyFor`) and
+ * tag rarity (see `tagRarityFor`).
  */
-export function computeSimilarity(a: Identity, b: Identity): SimilarityResult {
+export function computeSimilarity(
+  a: Identity,
+  b: Identity,
+  config: SimilarityConfig = DEFAULT_SIMILARITY_CONFIG,
+  corpus?: SimilarityCorpus,
+): SimilarityResult {
   const scores: Record<Lens, number> = { GIVEN: 0, CHOSEN: 0, CORE: 0 } as Record<Lens, number>;
-  const explanations: Record<Lens, LensSimilarityResult> = {
-    GIVEN: { score: 0, overlapTags: [], uniqueToA: [], uniqueToB: [], topWeights: [] },
-    CHOSEN: { score: 0, overlapTags: [], uniqueToA: [], uniqueToB: [], topWeights: [] },
-    CORE: { score: 0, overlapTags: [], uniqueToA: [], uniqueToB: [], topWeights: [] },
-  };
-  const lensWeights: Record<Lens, number> = { GIVEN: 0.8, CHOSEN: 1.0, CORE: 1.2 };
+  const explanations = {} as Record<Lens, LensSimilarityResult>;
+  const { lensWeights, tagBlend } = config;
+  const canonicaliser = canonicaliserFor(config);
+  const textStrategy = textStrategyFor(config, corpus);
+  const rarity = tagRarityFor(config, corpus);
+  const taxonomy = taxonomyFor(config);
   let weightedSum = 0;
   let weightTotal = 0;
   (['GIVEN', 'CHOSEN', 'CORE'] as Lens[]).forEach((lens) => {
     const aTags = a.tags[lens] ?? [];
     const bTags = b.tags[lens] ?? [];
-    const aTexts = (a.texts[lens] ?? []).flatMap((t) => tokenize(t));
-    const bTexts = (b.texts[lens] ?? []).flatMap((t) => tokenize(t));
-    const score = computeLensSimilarity(aTags, aTexts, bTags, bTexts);
+    const aSurface = (a.texts[lens] ?? []).map((t) => tokenizeWithSurface(t, config.language));
+    const bSurface = (b.texts[lens] ?? []).map((t) => tokenizeWithSurface(t, config.language));
+    const aTexts = aSurface.flat().map((t) => t.token);
+    const bTexts = bSurface.flat().map((t) => t.token);
+    const { score, tagScore, textScore } = computeLensSimilarity(
+      aTags,
+      aTexts,
+      bTags,
+      bTexts,
+      tagBlend,
+      canonicaliser,
+      textStrategy,
+      rarity,
+      taxonomy,
+    );
     scores[lens] = score;
-    // Explanation: only for tags currently
-    const exp = explainLens(aTags, bTags);
+    const exp = explainLens(aTags, bTags, canonicaliser, rarity, taxonomy);
     explanations[lens] = {
       score,
+      tagScore,
+      textScore,
       overlapTags: exp.overlap,
       uniqueToA: exp.uniqueA,
       uniqueToB: exp.uniqueB,
       topWeights: exp.topWeights,
+      sharedAncestors: exp.sharedAncestors,
+      ...explainText(aSurface, bSurface),
     };
     weightedSum += score * lensWeights[lens];
     weightTotal += lensWeights[lens];
   });
   const scoreOverall = weightTotal === 0 ? 0 : weightedSum / weightTotal;
   return { scores, scoreOverall, explanations };
-}
\ No newline at end of file
+}
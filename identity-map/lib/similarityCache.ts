@@ -0,0 +1,288 @@
+import {
+  Identity,
+  Lens,
+  LensSimilarityResult,
+  SimilarityConfig,
+  SimilarityCorpus,
+  buildSimilarityCorpus,
+  needsCorpus,
+} from './similarity';
+import { LENSES, buildIdentities } from './identity';
+import { PairResult, scorePair } from './matches';
+import { loadSessionConfig } from './similarityConfig';
+import { Repository, SimilarityCacheRow, getRepository } from './repository';
+
+/**
+ * Persistent similarity cache, stored in the `similarity_cache` table
+ * (or its in-memory equivalent, see `lib/repository.ts`).
+ *
+ * Each unordered pair of participants is stored once, with `a_id`
+ * being the lexicographically smaller id, and the explanations in
+ * `breakdown_json` oriented from `a_id` to `b_id`. Editing a
+ * participant's identity invalidates and recomputes only the pairs
+ * involving that participant; reads fill any missing pairs lazily so
+ * the cache never has to be complete up front. Changing a session's
+ * similarity config invalidates the whole session. With corpus-based
+ * scoring (TF-IDF text or tag rarity) an edit shifts the corpus
+ * slightly for every pair, but only the editor's pairs are refreshed;
+ * the drift in the remaining pairs is small and clears as participants
+ * edit.
+ *
+ * Cache writes are restricted to the service role, so these functions
+ * default to the full-access repository; API routes check who is
+ * calling first and only return scores for participants the caller
+ * may see.
+ */
+
+// Bump when the shape of the stored explanations or the way existing
+// input is scored changes (e.g. tokenization); rows with another
+// version are treated as missing and recomputed on read.
+const BREAKDOWN_VERSION = 5;
+
+/**
+ * Order two participant ids the way they are stored in the cache.
+ */
+export function orderPair(x: string, y: string): [string, string] {
+  return x < y ? [x, y] : [y, x];
+}
+
+/**
+ * Key for an unordered pair, as used by `getSessionPairs`.
+ */
+export function pairKey(x: string, y: string): string {
+  return orderPair(x, y).join(':');
+}
+
+/**
+ * Convert a pair result computed from `aId` towards `bId` into a
+ * cache row. `aId` must be the smaller id (see `orderPair`).
+ */
+export function toCacheRow(sessionId: string, aId: string, bId: string, result: PairResult): SimilarityCacheRow {
+  return {
+    session_id: sessionId,
+    a_id: aId,
+    b_id: bId,
+    score_overall: result.scores.overall,
+    score_given: result.scores.GIVEN,
+    score_chosen: result.scores.CHOSEN,
+    score_core: result.scores.CORE,
+    breakdown_json: { version: BREAKDOWN_VERSION, explanations: result.explanations },
+  };
+}
+
+/**
+ * Read a cache row back as a pair result oriented from `selfId`
+ * towards the other participant. When `selfId` is stored as `b_id`
+ * the per‑side unique tags and terms are swapped.
+ */
+export function fromCacheRow(row: SimilarityCacheRow, selfId: string): PairResult {
+  const flip = row.b_id === selfId;
+  const explanations = {} as Record<Lens, LensSimilarityResult>;
+  LENSES.forEach((lens) => {
+    const exp = row.breakdown_json.explanations[lens];
+    explanations[lens] = flip
+      ? { ...exp, uniqueToA: exp.uniqueToB, uniqueToB: exp.uniqueToA, uniqueTermsA: exp.uniqueTermsB, uniqueTermsB: exp.uniqueTermsA }
+      : exp;
+  });
+  return {
+    scores: {
+      overall: row.score_overall,
+      GIVEN: row.score_given,
+      CHOSEN: row.score_chosen,
+      CORE: row.score_core,
+    },
+    explanations,
+  };
+}
+
+/**
+ * Load identities for the given participants from their identity items.
+ */
+export async function loadIdentities(
+  participantIds: string[],
+  repository: Repository = getRepository(),
+): Promise<Record<string, Identity>> {
+  if (participantIds.length === 0) return {};
+  return buildIdentities(participantIds, await repository.identityItems.list(participantIds));
+}
+
+/**
+ * Everything needed to score pairs within a session.
+ */
+interface ScoringContext {
+  repository: Repository;
+  identities: Record<string, Identity>;
+  config: SimilarityConfig;
+  corpus?: SimilarityCorpus;
+}
+
+/**
+ * Return the ids of every participant in a session.
+ */
+async function loadSessionParticipantIds(sessionId: string, repository: Repository): Promise<string[]> {
+  return (await repository.participants.list(sessionId)).map((p) => p.id);
+}
+
+/**
+ * Load the session config and the identities of `participantIds`.
+ * Corpus-based scoring needs every identity in the session, so then
+ * all of them are loaded (reusing `sessionIds` when the caller
+ * already has the full list).
+ */
+async function loadScoringContext(
+  repository: Repository,
+  sessionId: string,
+  participantIds: string[],
+  sessionIds?: string[],
+): Promise<ScoringContext> {
+  const config = await loadSessionConfig(sessionId, repository);
+  if (!needsCorpus(config)) {
+    return { repository, config, identities: await loadIdentities(participantIds, repository) };
+  }
+  const allIds = Array.from(
+    new Set([...(sessionIds ?? (await loadSessionParticipantIds(sessionId, repository))), ...participantIds]),
+  );
+  const identities = await loadIdentities(allIds, repository);
+  return { repository, config, identities, corpus: buildSimilarityCorpus(Object.values(identities), config) };
+}
+
+/**
+ * Score each unordered pair and write the results to the cache.
+ * Returns the stored rows, oriented from the smaller id.
+ */
+async function storePairs(
+  sessionId: string,
+  pairs: [string, string][],
+  { repository, identities, config, corpus }: ScoringContext,
+): Promise<SimilarityCacheRow[]> {
+  const rows = pairs.map(([x, y]) => {
+    const [aId, bId] = orderPair(x, y);
+    return toCacheRow(sessionId, aId, bId, scorePair(identities[aId], identities[bId], config, corpus));
+  });
+  try {
+    await repository.similarityCache.upsert(rows);
+  } catch (err) {
+    // A failed write only costs a recomputation on the next read
+    console.error('Failed to write similarity cache:', err);
+  }
+  return rows;
+}
+
+/**
+ * Score `selfId` against each of `otherIds` and write the results to
+ * the cache. Returns the results keyed by the other participant.
+ */
+async function computeAndStore(
+  sessionId: string,
+  selfId: string,
+  otherIds: string[],
+  context: ScoringContext,
+): Promise<Record<string, PairResult>> {
+  const rows = await storePairs(sessionId, otherIds.map((otherId): [string, string] => [selfId, otherId]), context);
+  const results: Record<string, PairResult> = {};
+  rows.forEach((row) => {
+    results[row.a_id === selfId ? row.b_id : row.a_id] = fromCacheRow(row, selfId);
+  });
+  return results;
+}
+
+/**
+ * Remove every cached pair involving `participantId`.
+ */
+export async function invalidateParticipant(
+  sessionId: string,
+  participantId: string,
+  repository: Repository = getRepository(),
+): Promise<void> {
+  await repository.similarityCache.deleteForParticipant(sessionId, participantId);
+}
+
+/**
+ * Remove every cached pair in a session, e.g. after its similarity
+ * config changed.
+ */
+export async function invalidateSession(sessionId: string, repository: Repository = getRepository()): Promise<void> {
+  await repository.similarityCache.deleteForSession(sessionId);
+}
+
+/**
+ * Invalidate and recompute all pairs involving `participantId`
+ * against everyone else in the session, visible or not, so toggling
+ * visibility later does not require a recompute. Returns the number
+ * of pairs written.
+ */
+export async function recomputeParticipant(
+  sessionId: string,
+  participantId: string,
+  repository: Repository = getRepository(),
+): Promise<number> {
+  await invalidateParticipant(sessionId, participantId, repository);
+  const sessionIds = await loadSessionParticipantIds(sessionId, repository);
+  const otherIds = sessionIds.filter((id) => id !== participantId);
+  const context = await loadScoringContext(repository, sessionId, sessionIds, sessionIds);
+  const results = await computeAndStore(sessionId, participantId, otherIds, context);
+  return Object.keys(results).length;
+}
+
+/**
+ * Return pair results between `selfId` and each of `peerIds`, reading
+ * from the cache and computing (and storing) any pairs that are
+ * missing.
+ */
+export async function getPairResults(
+  sessionId: string,
+  selfId: string,
+  peerIds: string[],
+  repository: Repository = getRepository(),
+): Promise<Record<string, PairResult>> {
+  const wanted = new Set(peerIds.filter((id) => id !== selfId));
+  const rows = await repository.similarityCache.listForParticipant(sessionId, selfId);
+  const results: Record<string, PairResult> = {};
+  rows.forEach((row) => {
+    const otherId = row.a_id === selfId ? row.b_id : row.a_id;
+    if (wanted.has(otherId) && row.breakdown_json?.version === BREAKDOWN_VERSION) {
+      results[otherId] = fromCacheRow(row, selfId);
+    }
+  });
+  const missing = Array.from(wanted).filter((id) => !results[id]);
+  if (missing.length > 0) {
+    const context = await loadScoringContext(repository, sessionId, [selfId, ...missing]);
+    Object.assign(results, await computeAndStore(sessionId, selfId, missing, context));
+  }
+  return results;
+}
+
+/**
+ * Return pair results for every unordered pair among `participantIds`,
+ * keyed by `pairKey` and oriented from the smaller id. Used where the
+ * full distance matrix is needed (e.g. the People Map layout); missing
+ * pairs are computed and stored as in `getPairResults`.
+ */
+export async function getSessionPairs(
+  sessionId: string,
+  participantIds: string[],
+  repository: Repository = getRepository(),
+): Promise<Record<string, PairResult>> {
+  const ids = Array.from(new Set(participantIds));
+  if (ids.length < 2) return {};
+  const rows = await repository.similarityCache.listAmong(sessionId, ids);
+  const results: Record<string, PairResult> = {};
+  rows.forEach((row) => {
+    if (row.breakdown_json?.version === BREAKDOWN_VERSION) {
+      results[pairKey(row.a_id, row.b_id)] = fromCacheRow(row, row.a_id);
+    }
+  });
+  const missing: [string, string][] = [];
+  ids.forEach((x, i) => {
+    ids.slice(i + 1).forEach((y) => {
+      if (!results[pairKey(x, y)]) missing.push(orderPair(x, y));
+    });
+  });
+  if (missing.length > 0) {
+    const context = await loadScoringContext(repository, sessionId, ids);
+    (await storePairs(sessionId, missing, context)).forEach((row) => {
+      results[pairKey(row.a_id, row.b_id)] = fromCacheRow(row, row.a_id);
+    });
+  }
+  return results;
+}
@@ -0,0 +1,200 @@
+import {
+  DEFAULT_SIMILARITY_CONFIG,
+  Lens,
+  SimilarityConfig,
+  TEXT_STRATEGIES,
+  TagTaxonomyNode,
+  TextStrategyName,
+  listTextLanguages,
+} from './similarity';
+import { LENSES, MAX_TAG_LENGTH } from './identity';
+import { Repository, getRepository } from './repository';
+
+/**
+ * Per-session similarity configuration. Facilitators store a
+ * `SimilarityConfig` in `sessions.similarity_config`; any field left
+ * out falls back to `DEFAULT_SIMILARITY_CONFIG`, so sessions without a
+ * stored config keep the original model.
+ */
+
+export const MAX_LENS_WEIGHT = 5;
+export const MAX_SYNONYM_GROUPS = 100;
+export const MAX_SYNONYM_GROUP_SIZE = 20;
+export const MAX_TAXONOMY_TAGS = 500;
+export const MAX_TAXONOMY_DEPTH = 6;
+
+/**
+ * Validate facilitator-defined synonym groups. Each group needs at
+ * least two tags; blank entries are dropped.
+ */
+function parseSynonymGroups(raw: unknown, errors: string[]): string[][] {
+  if (!Array.isArray(raw)) {
+    errors.push('tagSynonyms must be an array of tag groups');
+    return [];
+  }
+  if (raw.length > MAX_SYNONYM_GROUPS) {
+    errors.push(`tagSynonyms can have at most ${MAX_SYNONYM_GROUPS} groups`);
+    return [];
+  }
+  const groups: string[][] = [];
+  raw.forEach((group, index) => {
+    if (!Array.isArray(group) || group.some((tag) => typeof tag !== 'string')) {
+      errors.push(`tagSynonyms[${index}] must be an array of strings`);
+      return;
+    }
+    const tags = group.map((tag: string) => tag.trim()).filter((tag) => tag.length > 0);
+    if (tags.length < 2 || tags.length > MAX_SYNONYM_GROUP_SIZE) {
+      errors.push(`tagSynonyms[${index}] must have between 2 and ${MAX_SYNONYM_GROUP_SIZE} tags`);
+      return;
+    }
+    if (tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+      errors.push(`tagSynonyms[${index}] tags must be at most ${MAX_TAG_LENGTH} characters`);
+      return;
+    }
+    groups.push(tags);
+  });
+  return groups;
+}
+
+/**
+ * Validate a facilitator-defined tag taxonomy: nested lists of
+ * `{ tag, children }` nodes. Stops at the first problem, since one
+ * misplaced bracket would otherwise report every node below it.
+ */
+function parseTaxonomy(raw: unknown, errors: string[]): TagTaxonomyNode[] {
+  let tagCount = 0;
+  const parseLevel = (value: unknown, path: string, depth: number): TagTaxonomyNode[] | null => {
+    if (!Array.isArray(value)) {
+      errors.push(`${path} must be an array of { tag, children } nodes`);
+      return null;
+    }
+    if (depth > MAX_TAXONOMY_DEPTH) {
+      errors.push(`tagTaxonomy can be at most ${MAX_TAXONOMY_DEPTH} levels deep`);
+      return null;
+    }
+    const nodes: TagTaxonomyNode[] = [];
+    for (let index = 0; index < value.length; index++) {
+      const node = value[index];
+      const at = `${path}[${index}]`;
+      if (!node || typeof node !== 'object' || typeof node.tag !== 'string' || node.tag.trim().length === 0) {
+        errors.push(`${at}.tag must be a non-empty string`);
+        return null;
+      }
+      const tag = node.tag.trim();
+      if (tag.length > MAX_TAG_LENGTH) {
+        errors.push(`${at}.tag must be at most ${MAX_TAG_LENGTH} characters`);
+        return null;
+      }
+      if (++tagCount > MAX_TAXONOMY_TAGS) {
+        errors.push(`tagTaxonomy can have at most ${MAX_TAXONOMY_TAGS} tags`);
+        return null;
+      }
+      if (node.children === undefined) {
+        nodes.push({ tag });
+        continue;
+      }
+      const children = parseLevel(node.children, `${at}.children`, depth + 1);
+      if (!children) return null;
+      nodes.push(children.length > 0 ? { tag, children } : { tag });
+    }
+    return nodes;
+  };
+  return parseLevel(raw, 'tagTaxonomy', 1) ?? [];
+}
+
+/**
+ * Validate a (possibly partial) similarity config submitted by a
+ * facilitator and merge it with the defaults. Returns the merged
+ * config, or null with a list of errors when anything is invalid.
+ */
+export function parseSimilarityConfig(raw: unknown): { config: SimilarityConfig | null; errors: string[] } {
+  const errors: string[] = [];
+  if (raw === null || raw === undefined) {
+    return { config: DEFAULT_SIMILARITY_CONFIG, errors };
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { config: null, errors: ['config must be an object'] };
+  }
+  const input = raw as Partial<Record<keyof SimilarityConfig, unknown>>;
+  const lensWeights = { ...DEFAULT_SIMILARITY_CONFIG.lensWeights };
+  if (input.lensWeights !== undefined) {
+    if (!input.lensWeights || typeof input.lensWeights !== 'object') {
+      errors.push('lensWeights must be an object');
+    } else {
+      const weights = input.lensWeights as Partial<Record<Lens, unknown>>;
+      LENSES.forEach((lens) => {
+        const value = weights[lens];
+        if (value === undefined) return;
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > MAX_LENS_WEIGHT) {
+          errors.push(`lensWeights.${lens} must be a number between 0 and ${MAX_LENS_WEIGHT}`);
+          return;
+        }
+        lensWeights[lens] = value;
+      });
+      if (LENSES.every((lens) => lensWeights[lens] === 0)) {
+        errors.push('At least one lens weight must be greater than 0');
+      }
+    }
+  }
+  let tagBlend = DEFAULT_SIMILARITY_CONFIG.tagBlend;
+  if (input.tagBlend !== undefined) {
+    if (typeof input.tagBlend !== 'number' || !Number.isFinite(input.tagBlend) || input.tagBlend < 0 || input.tagBlend > 1) {
+      errors.push('tagBlend must be a number between 0 and 1');
+    } else {
+      tagBlend = input.tagBlend;
+    }
+  }
+  const tagSynonyms =
+    input.tagSynonyms !== undefined ? parseSynonymGroups(input.tagSynonyms, errors) : DEFAULT_SIMILARITY_CONFIG.tagSynonyms;
+  let textStrategy = DEFAULT_SIMILARITY_CONFIG.textStrategy;
+  if (input.textStrategy !== undefined) {
+    if (!TEXT_STRATEGIES.includes(input.textStrategy as TextStrategyName)) {
+      errors.push(`textStrategy must be one of ${TEXT_STRATEGIES.join(', ')}`);
+    } else {
+      textStrategy = input.textStrategy as TextStrategyName;
+    }
+  }
+  let language = DEFAULT_SIMILARITY_CONFIG.language;
+  if (input.language !== undefined) {
+    const codes = listTextLanguages().map(({ code }) => code);
+    if (typeof input.language !== 'string' || !codes.includes(input.language)) {
+      errors.push(`language must be one of ${codes.join(', ')}`);
+    } else {
+      language = input.language;
+    }
+  }
+  let tagRarity = DEFAULT_SIMILARITY_CONFIG.tagRarity;
+  if (input.tagRarity !== undefined) {
+    if (typeof input.tagRarity !== 'boolean') {
+      errors.push('tagRarity must be true or false');
+    } else {
+      tagRarity = input.tagRarity;
+    }
+  }
+  const tagTaxonomy =
+    input.tagTaxonomy !== undefined ? parseTaxonomy(input.tagTaxonomy, errors) : DEFAULT_SIMILARITY_CONFIG.tagTaxonomy;
+  if (errors.length > 0) return { config: null, errors };
+  return { config: { lensWeights, tagBlend, tagSynonyms, textStrategy, language, tagRarity, tagTaxonomy }, errors };
+}
+
+/**
+ * Turn a stored config into a usable one. Invalid stored values fall
+ * back to the defaults rather than failing every similarity request.
+ */
+export function resolveSimilarityConfig(stored: unknown): SimilarityConfig {
+  return parseSimilarityConfig(stored).config ?? DEFAULT_SIMILARITY_CONFIG;
+}
+
+/**
+ * Load the similarity config for a session.
+ */
+export async function loadSessionConfig(
+  sessionId: string,
+  repository: Repository = getRepository(),
+): Promise<SimilarityConfig> {
+  const session = await repository.sessions.get(sessionId);
+  if (!session) {
+    throw new Error('Session not found');
+  }
+  return resolveSimilarityConfig(session.similarity_config);
+}
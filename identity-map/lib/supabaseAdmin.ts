@@ -0,0 +1,25 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Service-role Supabase client for trusted server code: API routes
+ * after they have checked who is calling, and scripts such as the seed.
+ * It bypasses row-level security, so it must never be imported into a
+ * page or component. Created on first use so routes that never need it
+ * do not require `SUPABASE_SERVICE_ROLE_KEY`.
+ */
+
+let serviceClient: SupabaseClient | null = null;
+
+export function getServiceClient(): SupabaseClient {
+  if (!serviceClient) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL ?? process.env.SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !serviceRoleKey) {
+      throw new Error('Set NEXT_PUBLIC_SUPABASE_URL (or SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY for server-side access.');
+    }
+    serviceClient = createClient(url, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+  return serviceClient;
+}
@@ -1,20 +1,38 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
 /**
  * Initialise a Supabase client using environment variables. The
  * `NEXT_PUBLIC_SUPABASE_URL` and `NEXT_PUBLIC_SUPABASE_ANON_KEY` must
  * be set in your environment (e.g. in `.env.local`) for the client
  * to connect to your Supabase instance. See README for details.
+ *
+ * Pages use it for sign-in and realtime updates; data goes through the
+ * API routes and `lib/repository.ts`. The client is created on first
+ * use, so importing this module (e.g. from tests or with the in-memory
+ * storage backend) does not require the variables to be set.
  */
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL as string | undefined;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY as string | undefined;
+export const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL as string | undefined;
+export const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY as string | undefined;
 
-// Ensure the Supabase credentials are defined at runtime. Without these values the
-// Supabase client will silently connect to `undefined` and all requests will fail.
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error(
-    'Supabase environment variables are missing. Please set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY in your deployment.'
-  );
-}
+/**
+ * Whether pages can reach Supabase. Without it they sign in through
+ * `/api/auth/local`, which only the in-memory storage backend accepts,
+ * and get no live updates.
+ */
+export const supabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
\ No newline at end of file
+let browserClient: SupabaseClient | null = null;
+
+export function getSupabase(): SupabaseClient {
+  if (!browserClient) {
+    // Without these values the Supabase client would silently connect to
+    // `undefined` and all requests would fail.
+    if (!supabaseUrl || !supabaseAnonKey) {
+      throw new Error(
+        'Supabase environment variables are missing. Please set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY in your deployment.'
+      );
+    }
+    browserClient = createClient(supabaseUrl, supabaseAnonKey);
+  }
+  return browserClient;
+}
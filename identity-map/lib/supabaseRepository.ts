@@ -0,0 +1,224 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  IdentityItemRecord,
+  PairingRoundRecord,
+  ParticipantRecord,
+  Repository,
+  SessionRecord,
+  SimilarityCacheRow,
+} from './repository';
+
+/**
+ * Repository backed by the Supabase tables in `supabase/schema.sql`.
+ * Whether row-level security applies depends on the client passed in:
+ * the service-role client bypasses it, a client acting as a signed-in
+ * user is limited by the policies.
+ */
+
+// Postgres error code for a unique violation
+const UNIQUE_VIOLATION = '23505';
+
+const CACHE_COLUMNS = 'session_id, a_id, b_id, score_overall, score_given, score_chosen, score_core, breakdown_json';
+
+// Escape LIKE wildcards so values match literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+export function createSupabaseRepository(client: SupabaseClient): Repository {
+  return {
+    sessions: {
+      async get(id) {
+        const { data, error } = await client.from('sessions').select('*').eq('id', id).maybeSingle();
+        if (error) throw new Error(error.message);
+        return data as SessionRecord | null;
+      },
+      async findByCode(code) {
+        const { data, error } = await client.from('sessions').select('*').eq('code', code).maybeSingle();
+        if (error) throw new Error(error.message);
+        return data as SessionRecord | null;
+      },
+      async listByFacilitator(email) {
+        const { data, error } = await client
+          .from('sessions')
+          .select('*')
+          .eq('facilitator_email', email)
+          .order('created_at', { ascending: false });
+        if (error || !data) throw new Error(error?.message ?? 'Failed to fetch sessions');
+        return data as SessionRecord[];
+      },
+      async create(session) {
+        const { data, error } = await client.from('sessions').insert(session).select().single();
+        if (error?.code === UNIQUE_VIOLATION) return null;
+        if (error || !data) throw new Error(error?.message ?? 'Failed to create session');
+        return data as SessionRecord;
+      },
+      async update(id, changes) {
+        const { data, error } = await client.from('sessions').update(changes).eq('id', id).select().maybeSingle();
+        if (error) throw new Error(error.message);
+        return data as SessionRecord | null;
+      },
+      async deleteExpired(before) {
+        const { count, error } = await client
+          .from('sessions')
+          .delete({ count: 'exact' })
+          .lte('expires_at', before.toISOString());
+        if (error) throw new Error(error.message);
+        return count ?? 0;
+      },
+    },
+
+    participants: {
+      async get(id) {
+        const { data, error } = await client.from('participant').select('*').eq('id', id).maybeSingle();
+        if (error) throw new Error(error.message);
+        return data as ParticipantRecord | null;
+      },
+      async findByUser(sessionId, userId) {
+        const { data, error } = await client
+          .from('participant')
+          .select('*')
+          .eq('session_id', sessionId)
+          .eq('user_id', userId)
+          .maybeSingle();
+        if (error) throw new Error(error.message);
+        return data as ParticipantRecord | null;
+      },
+      async findByName(sessionId, displayName) {
+        const { data, error } = await client
+          .from('participant')
+          .select('*')
+          .eq('session_id', sessionId)
+          .ilike('display_name', escapeLike(displayName))
+          .limit(1);
+        if (error || !data) throw new Error(error?.message ?? 'Failed to fetch participants');
+        return (data[0] as ParticipantRecord) ?? null;
+      },
+      async list(sessionId, { visibleOnly = false, ids } = {}) {
+        if (ids && ids.length === 0) return [];
+        let query = client.from('participant').select('*').eq('session_id', sessionId);
+        if (visibleOnly) query = query.eq('is_visible', true);
+        if (ids) query = query.in('id', ids);
+        const { data, error } = await query.order('id');
+        if (error || !data) throw new Error(error?.message ?? 'Failed to fetch participants');
+        return data as ParticipantRecord[];
+      },
+      async count(sessionId) {
+        const { count, error } = await client
+          .from('participant')
+          .select('*', { count: 'exact', head: true })
+          .eq('session_id', sessionId);
+        if (error) throw new Error(error.message);
+        return count ?? 0;
+      },
+      async create(participant) {
+        const { data, error } = await client.from('participant').insert(participant).select().single();
+        // The unique index on (session_id, lower(display_name)) catches concurrent joins
+        if (error?.code === UNIQUE_VIOLATION) return null;
+        if (error || !data) throw new Error(error?.message ?? 'Failed to create participant');
+        return data as ParticipantRecord;
+      },
+      async update(id, changes) {
+        const { data, error } = await client.from('participant').update(changes).eq('id', id).select().maybeSingle();
+        if (error) throw new Error(error.message);
+        return data as ParticipantRecord | null;
+      },
+      async delete(id) {
+        // identity_item and similarity_cache rows go with it (ON DELETE CASCADE)
+        const { count, error } = await client.from('participant').delete({ count: 'exact' }).eq('id', id);
+        if (error) throw new Error(error.message);
+        return (count ?? 0) > 0;
+      },
+    },
+
+    identityItems: {
+      async list(participantIds) {
+        if (participantIds.length === 0) return [];
+        const { data, error } = await client
+          .from('identity_item')
+          .select('*')
+          .in('participant_id', participantIds)
+          .order('created_at', { ascending: true });
+        if (error || !data) throw new Error(error?.message ?? 'Failed to fetch identity items');
+        return data as IdentityItemRecord[];
+      },
+      async insert(items) {
+        if (items.length === 0) return;
+        const { error } = await client.from('identity_item').insert(items);
+        if (error) throw new Error(error.message);
+      },
+      async update(items) {
+        if (items.length === 0) return;
+        const { error } = await client.from('identity_item').upsert(items);
+        if (error) throw new Error(error.message);
+      },
+      async delete(participantId, { id, lens } = {}) {
+        let query = client.from('identity_item').delete({ count: 'exact' }).eq('participant_id', participantId);
+        if (id) query = query.eq('id', id);
+        if (lens) query = query.eq('lens', lens);
+        const { count, error } = await query;
+        if (error) throw new Error(error.message);
+        return count ?? 0;
+      },
+    },
+
+    similarityCache: {
+      async listForParticipant(sessionId, participantId) {
+        const { data, error } = await client
+          .from('similarity_cache')
+          .select(CACHE_COLUMNS)
+          .eq('session_id', sessionId)
+          .or(`a_id.eq.${participantId},b_id.eq.${participantId}`);
+        if (error) throw new Error(error.message);
+        return (data ?? []) as SimilarityCacheRow[];
+      },
+      async listAmong(sessionId, participantIds) {
+        if (participantIds.length === 0) return [];
+        const { data, error } = await client
+          .from('similarity_cache')
+          .select(CACHE_COLUMNS)
+          .eq('session_id', sessionId)
+          .in('a_id', participantIds)
+          .in('b_id', participantIds);
+        if (error) throw new Error(error.message);
+        return (data ?? []) as SimilarityCacheRow[];
+      },
+      async upsert(rows) {
+        if (rows.length === 0) return;
+        const { error } = await client.from('similarity_cache').upsert(rows, { onConflict: 'session_id,a_id,b_id' });
+        if (error) throw new Error(error.message);
+      },
+      async deleteForParticipant(sessionId, participantId) {
+        const { error } = await client
+          .from('similarity_cache')
+          .delete()
+          .eq('session_id', sessionId)
+          .or(`a_id.eq.${participantId},b_id.eq.${participantId}`);
+        if (error) throw new Error(error.message);
+      },
+      async deleteForSession(sessionId) {
+        const { error } = await client.from('similarity_cache').delete().eq('session_id', sessionId);
+        if (error) throw new Error(error.message);
+      },
+    },
+
+    pairingRounds: {
+      async list(sessionId) {
+        const { data, error } = await client
+          .from('pairing_round')
+          .select('*')
+          .eq('session_id', sessionId)
+          .order('round_number');
+        if (error || !data) throw new Error(error?.message ?? 'Failed to fetch rounds');
+        return data as PairingRoundRecord[];
+      },
+      async create(round) {
+        const { data, error } = await client.from('pairing_round').insert(round).select().single();
+        // The unique (session_id, round_number) constraint catches concurrent starts
+        if (error?.code === UNIQUE_VIOLATION) return null;
+        if (error || !data) throw new Error(error?.message ?? 'Failed to save round');
+        return data as PairingRoundRecord;
+      },
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { NextRequest } from 'next/server';
+import { supabaseAnonKey, supabaseUrl } from './supabaseClient';
+import { getRepository } from './repository';
+import { PARTICIPANT_TOKEN_HEADER } from './authFetch';
+import { verifyParticipantToken } from './participantToken';
+import { LOCAL_TOKEN_PREFIX, localAuthEnabled, verifyLocalUserToken } from './localAuth';
+import { SessionState, effectiveState } from './sessionState';
+
+/**
+ * Server-side Supabase access on behalf of the signed-in user.
+ *
+ * Pages send the user's access token as `Authorization: Bearer ...`
+ * (see `lib/authFetch.ts`). API routes build a client from it so every
+ * query runs as that user and the row-level security policies in
+ * `supabase/schema.sql` apply, instead of trusting a participant id
+ * taken from the request. Facilitators sign in by email; they manage
+ * the sessions whose `facilitator_email` matches theirs. With the
+ * in-memory storage backend, local access tokens are accepted instead
+ * (see `lib/localAuth.ts`).
+ */
+
+export interface AuthContext {
+  // Null for local sign-in, which has no Supabase user
+  client: SupabaseClient | null;
+  userId: string;
+  // Null for anonymous participants
+  email: string | null;
+}
+
+/**
+ * Verify the request's bearer token and return a client acting as its
+ * user, or null when the token is missing or invalid.
+ */
+export async function authenticate(request: NextRequest): Promise<AuthContext | null> {
+  const header = request.headers.get('authorization') ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (!token) return null;
+  if (token.startsWith(LOCAL_TOKEN_PREFIX)) {
+    const claims = localAuthEnabled() ? verifyLocalUserToken(token) : null;
+    return claims ? { client: null, userId: claims.userId, email: claims.email } : null;
+  }
+  const client = createClient(supabaseUrl as string, supabaseAnonKey as string, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user) return null;
+  return { client, userId: data.user.id, email: data.user.email ? data.user.email.toLowerCase() : null };
+}
+
+/**
+ * Resolve the participant named by the request's participant token
+ * (issued by `/api/join`). The token must verify and belong to the
+ * authenticated user, and the participant must still exist. Returns
+ * null otherwise, so callers can answer 404 without revealing which.
+ * The participant comes with their session's effective lifecycle
+ * state so routes can enforce it (see `lib/sessionState.ts`).
+ */
+export async function findTokenParticipant(
+  request: NextRequest,
+  auth: AuthContext,
+): Promise<{ id: string; session_id: string; display_name: string; state: SessionState } | null> {
+  const token = request.headers.get(PARTICIPANT_TOKEN_HEADER);
+  const claims = token ? verifyParticipantToken(token) : null;
+  if (!claims || claims.userId !== auth.userId) return null;
+  const repository = getRepository(auth);
+  const participant = await repository.participants.get(claims.participantId);
+  if (!participant || participant.user_id !== auth.userId) return null;
+  const session = await repository.sessions.get(participant.session_id);
+  return {
+    id: participant.id,
+    session_id: participant.session_id,
+    display_name: participant.display_name,
+    state: effectiveState(session ?? {}),
+  };
+}
+
+/**
+ * Check that the authenticated user facilitates `sessionId`. Returns
+ * the session id, or null when the session does not exist or belongs
+ * to someone else.
+ */
+export async function findFacilitatedSession(auth: AuthContext, sessionId: string): Promise<{ id: string } | null> {
+  if (!auth.email) return null;
+  const session = await getRepository().sessions.get(sessionId);
+  if (!session || (session.facilitator_email ?? '').toLowerCase() !== auth.email) return null;
+  return { id: session.id };
+}
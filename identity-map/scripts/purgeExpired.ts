@@ -4,40 +4,26 @@
  * This script deletes any sessions whose expires_at is in the past
  * along with their participants and identity items (due to ON
  * DELETE CASCADE). It can be scheduled via cron or invoked
- * manually. To run it, set the SUPABASE_SERVICE_ROLE_KEY and
- * SUPABASE_URL environment variables. Example:
+ * manually. To run it, set SUPABASE_SERVICE_ROLE_KEY and
+ * NEXT_PUBLIC_SUPABASE_URL (or SUPABASE_URL), as for the app. Example:
  *
  *   SUPABASE_SERVICE_ROLE_KEY=your-service-role-key \
  *   SUPABASE_URL=https://abc.supabase.co \
  *   ts-node scripts/purgeExpired.ts
+ *
+ * Missing configuration is reported by `getServiceClient` and, like
+ * any other failure, makes the script exit with status 1.
  */
-import { createClient } from '@supabase/supabase-js';
-
-const url = process.env.SUPABASE_URL;
-const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-if (!url || !serviceRoleKey) {
-  console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
-  process.exit(1);
-}
-
-const supabase = createClient(url, serviceRoleKey, {
-  auth: {
-    persistSession: false,
-  },
-});
+import { getRepository } from '../lib/repository';
 
 async function purgeExpired() {
-  const now = new Date().toISOString();
-  const { error } = await supabase
-    .from('sessions')
-    .delete()
-    .lte('expires_at', now);
-  if (error) {
-    console.error('Failed to purge expired sessions:', error.message);
-  } else {
-    console.log('Expired sessions purged');
+  try {
+    const count = await getRepository().sessions.deleteExpired(new Date());
+    console.log(`Expired sessions purged: ${count}`);
+  } catch (err) {
+    console.error('Failed to purge expired sessions:', (err as Error).message);
+    process.exitCode = 1;
   }
 }
 
-purgeExpired().then(() => process.exit());
\ No newline at end of file
+purgeExpired().then(() => process.exit());
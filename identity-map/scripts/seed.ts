@@ -1,32 +1,34 @@
-import { supabase } from '../lib/supabaseClient';
-import { generateSessionCode } from '../lib/codeGenerator';
+import { getRepository } from '../lib/repository';
+import { generateSessionCode, sessionCodeChecksumEnabled } from '../lib/codeGenerator';
+import { IdentityItemRow } from '../lib/identity';
 
 /**
  * Seed script for populating the database with a sample session. To run
  * this, ensure your environment variables point to a valid Supabase
- * instance and run `npm run seed`. The script will create a single
+ * instance, including `SUPABASE_SERVICE_ROLE_KEY` (row-level security
+ * only lets the service role insert participants for other users),
+ * and run `npm run seed`. The script will create a single
  * session with a future expiry date. Extend this script to add
- * participants and identity items as needed.
+ * participants and identity items as needed. With
+ * `STORAGE_BACKEND=memory` the data only lives as long as the script,
+ * which is still useful as a smoke test of the storage layer.
  */
 async function main() {
+  const repository = getRepository();
   // Generate a 7‑character code for the demo session
-  const code = generateSessionCode(7);
+  const code = generateSessionCode(7, { checksum: sessionCodeChecksumEnabled() });
   const now = new Date();
   const expiresAt = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
 
-  const { data: session, error: sessionError } = await supabase
-    .from('sessions')
-    .insert({
-      code,
-      title: 'Demo Session',
-      facilitator_email: 'facilitator@example.com',
-      expires_at: expiresAt.toISOString(),
-    })
-    .select()
-    .single();
+  const session = await repository.sessions.create({
+    code,
+    title: 'Demo Session',
+    facilitator_email: 'facilitator@example.com',
+    expires_at: expiresAt.toISOString(),
+  });
 
-  if (sessionError || !session) {
-    console.error('Failed to create session:', sessionError?.message);
+  if (!session) {
+    console.error('Failed to create session: code already in use');
     return;
   }
 
@@ -38,27 +40,20 @@ async function main() {
     { display_name: 'Bob', is_visible: true, consent_given: true },
     { display_name: 'Charlie', is_visible: false, consent_given: true },
   ];
-  const { data: insertedParticipants, error: participantErr } = await supabase
-    .from('participant')
-    .insert(
-      participants.map((p) => ({
-        session_id: session.id,
-        display_name: p.display_name,
-        is_visible: p.is_visible,
-        consent_given: p.consent_given,
-      }))
-    )
-    .select();
-
-  if (participantErr || !insertedParticipants) {
-    console.error('Failed to insert participants:', participantErr?.message);
-    return;
+  const insertedParticipants = [];
+  for (const p of participants) {
+    const inserted = await repository.participants.create({ session_id: session.id, ...p });
+    if (!inserted) {
+      console.error('Failed to insert participant:', p.display_name);
+      return;
+    }
+    insertedParticipants.push(inserted);
   }
-  console.log('Inserted participants:', insertedParticipants.map((p: any) => p.display_name));
+  console.log('Inserted participants:', insertedParticipants.map((p) => p.display_name));
 
   // Insert identity items for each participant
-  const items: any[] = [];
-  insertedParticipants.forEach((p: any, idx: number) => {
+  const items: Omit<IdentityItemRow, 'id'>[] = [];
+  insertedParticipants.forEach((p, idx) => {
     // Basic sample data: each participant gets one item per lens
     const names = ['Alice', 'Bob', 'Charlie'];
     const base = names[idx];
@@ -86,14 +81,15 @@ async function main() {
       }
     );
   });
-  const { error: itemsErr } = await supabase.from('identity_item').insert(items);
-  if (itemsErr) {
-    console.error('Failed to insert identity items:', itemsErr.message);
-    return;
-  }
+  await repository.identityItems.insert(items);
   console.log('Inserted identity items');
 }
 
-main().then(() => {
-  console.log('Seed complete');
-});
\ No newline at end of file
+main()
+  .then(() => {
+    console.log('Seed complete');
+  })
+  .catch((err) => {
+    console.error('Seed failed:', err.message);
+    process.exit(1);
+  });
\ No newline at end of file
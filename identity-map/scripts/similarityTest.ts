@@ -4,9 +4,38 @@ import {
   tokenize,
   textJaccard,
   computeSimilarity,
+  buildSimilarityCorpus,
+  createTagCanonicaliser,
+  createTfidfStrategy,
+  tagRarityFor,
+  createTagTaxonomy,
+  normaliseTag,
+  porter2Stem,
+  DEFAULT_SIMILARITY_CONFIG,
   Identity,
   TagItem,
 } from '../lib/similarity';
+import { MAX_ITEMS_PER_LENS, buildIdentities, planIdentityBatch } from '../lib/identity';
+import { computeMatches, parseScope, rankMatches } from '../lib/matches';
+import { classicalMds } from '../lib/layout';
+import { partitionIntoGroups } from '../lib/grouping';
+import { pairRound, previousMeetings } from '../lib/pairing';
+import {
+  SESSION_CODE_ALPHABET,
+  checkCharacter,
+  generateSessionCode,
+  hasValidChecksum,
+  normalizeSessionCode,
+} from '../lib/codeGenerator';
+import { computeSessionAnalytics } from '../lib/analytics';
+import { parseSimilarityConfig } from '../lib/similarityConfig';
+import { EXPORT_TABLES, buildSessionExport, exportTableCsv, participantLabels } from '../lib/sessionExport';
+import { checkRateLimit, clientIp, createMemoryRateLimitStore, parseRateLimitRule } from '../lib/rateLimit';
+import { signParticipantToken, verifyParticipantToken } from '../lib/participantToken';
+import { signLocalUserToken, verifyLocalUserToken } from '../lib/localAuth';
+import { canTransition, effectiveState, matchesRevealed } from '../lib/sessionState';
+import { createMemoryRepository } from '../lib/memoryRepository';
+import { getPairResults, getSessionPairs, recomputeParticipant } from '../lib/similarityCache';
 
 function nearlyEqual(a: number, b: number, eps = 1e-6): boolean {
   return Math.abs(a - b) <= eps;
@@ -107,12 +136,621 @@ function testBounds() {
   assert.ok(res.scoreOverall >= 0 && res.scoreOverall <= 1, 'Overall score within bounds');
 }
 
-function runTests() {
+function testRankMatches() {
+  const identities = buildIdentities(
+    ['me', 'twin', 'stranger'],
+    [
+      { participant_id: 'me', lens: 'CORE', type: 'tag', value: 'music', weight: 3 },
+      { participant_id: 'twin', lens: 'CORE', type: 'tag', value: 'Music', weight: 3 },
+      { participant_id: 'stranger', lens: 'CORE', type: 'tag', value: 'chess', weight: 1 },
+    ]
+  );
+  const participants = [
+    { id: 'me', display_name: 'Me' },
+    { id: 'twin', display_name: 'Twin' },
+    { id: 'stranger', display_name: 'Stranger' },
+  ];
+  const matches = computeMatches('me', participants, identities, 'CORE');
+  assert.equal(matches.length, 2, 'Self is excluded from matches');
+  const { topSimilar, topDifferent } = rankMatches(matches, 1);
+  assert.equal(topSimilar[0].participant.id, 'twin', 'Most similar is ranked first');
+  assert.equal(topDifferent[0].participant.id, 'stranger', 'Most different is ranked first');
+  assert.deepEqual(topSimilar[0].explanations.CORE.overlapTags, ['music'], 'Explanations are included');
+  // No GIVEN data on either side -> null lens score, excluded from ranking
+  assert.equal(matches[0].scores.GIVEN, null, 'Empty lens score is null');
+  assert.equal(rankMatches(computeMatches('me', participants, identities, 'GIVEN'), 3).topSimilar.length, 0);
+  assert.equal(parseScope('Chosen'), 'CHOSEN');
+  assert.equal(parseScope(null), 'overall');
+  assert.equal(parseScope('everything'), null);
+}
+
+function testPlanIdentityBatch() {
+  const existing = [
+    { id: 'i1', participant_id: 'p', lens: 'CORE' as const, type: 'tag' as const, value: 'Music', weight: 1 },
+  ];
+  // Duplicate tags collapse with the max weight; an existing tag is updated instead of re-inserted
+  const plan = planIdentityBatch('p', existing, [
+    { lens: 'CORE', type: 'tag', value: ' music ', weight: 3 },
+    { lens: 'GIVEN', type: 'tag', value: 'Parent', weight: 1 },
+    { lens: 'GIVEN', type: 'tag', value: 'parent', weight: 2 },
+  ]);
+  assert.deepEqual(plan.errors, []);
+  assert.equal(plan.inserts.length, 1, 'Duplicate new tags are merged');
+  assert.equal(plan.inserts[0].weight, 2, 'Merged tag keeps the highest weight');
+  assert.equal(plan.updates.length, 1, 'Existing tag is updated');
+  assert.equal(plan.updates[0].weight, 3);
+  // Invalid weight, type and unknown ids are all reported
+  const invalid = planIdentityBatch('p', existing, [
+    { lens: 'CORE', type: 'tag', value: 'x', weight: 4 },
+    { lens: 'CORE', type: 'image', value: 'x' },
+    { id: 'missing', weight: 2 },
+    { lens: 'CORE', type: 'tag', value: 'x'.repeat(41) },
+  ]);
+  assert.equal(invalid.errors.length, 4, 'Every invalid item is reported');
+  // Renaming a tag to one the lens already has is a duplicate too
+  const withTwo = [...existing, { id: 'i2', participant_id: 'p', lens: 'CORE' as const, type: 'tag' as const, value: 'Art', weight: 1 }];
+  assert.deepEqual(planIdentityBatch('p', withTwo, [{ id: 'i2', value: 'MUSIC' }]).errors, ['Item 0: CORE already has this tag']);
+  assert.deepEqual(planIdentityBatch('p', withTwo, [{ id: 'i2', value: 'Dance' }]).errors, []);
+  assert.equal(
+    planIdentityBatch('p', withTwo, [{ id: 'i2', value: 'Film' }, { lens: 'CORE', type: 'tag', value: 'film' }]).errors.length,
+    1,
+    'An edit clashing with a new tag is reported',
+  );
+  const tooMany = Array.from({ length: MAX_ITEMS_PER_LENS }, (_, i) => ({ lens: 'CORE', type: 'tag', value: `tag${i}` }));
+  assert.equal(planIdentityBatch('p', existing, tooMany).errors.length, 1, 'Per-lens cap is enforced');
+}
+
+function testSimilarityConfig() {
+  const a: Identity = {
+    tags: { GIVEN: [{ value: 'parent', weight: 2 }], CHOSEN: [], CORE: [{ value: 'music', weight: 3 }] },
+    texts: { GIVEN: [], CHOSEN: [], CORE: [] },
+  };
+  const b: Identity = {
+    tags: { GIVEN: [{ value: 'student', weight: 2 }], CHOSEN: [], CORE: [{ value: 'music', weight: 3 }] },
+    texts: { GIVEN: [], CHOSEN: [], CORE: [] },
+  };
+  const defaults = computeSimilarity(a, b);
+  assert.ok(nearlyEqual(defaults.scoreOverall, computeSimilarity(a, b, DEFAULT_SIMILARITY_CONFIG).scoreOverall));
+  // Ignoring GIVEN leaves only the fully overlapping CORE lens (plus the empty CHOSEN lens)
+  const noGiven = computeSimilarity(a, b, {
+    ...DEFAULT_SIMILARITY_CONFIG,
+    lensWeights: { GIVEN: 0, CHOSEN: 0, CORE: 1 },
+    tagBlend: 1,
+  });
+  assert.ok(nearlyEqual(noGiven.scoreOverall, 1), 'Lens weight 0 ignores the lens');
+  assert.ok(nearlyEqual(noGiven.scores.CORE, 1), 'tagBlend 1 uses tags only');
+  assert.ok(nearlyEqual(defaults.scores.CORE, 0.7), 'Default blend takes 70% from tags');
+}
+
+function testTagCanonicalisation() {
+  // Punctuation, case and the built-in synonym groups are folded together
+  assert.ok(nearlyEqual(weightedJaccard([{ value: 'LGBTQ+', weight: 2 }], [{ value: 'queer', weight: 2 }]), 1));
+  assert.ok(nearlyEqual(weightedJaccard([{ value: 'Non-Binary', weight: 1 }], [{ value: 'nonbinary', weight: 1 }]), 1));
+  assert.ok(nearlyEqual(weightedJaccard([{ value: 'runner', weight: 1 }], [{ value: 'Running', weight: 1 }]), 1));
+  // Simple stemming applies per word
+  assert.ok(nearlyEqual(weightedJaccard([{ value: 'board games', weight: 1 }], [{ value: 'board game', weight: 1 }]), 1));
+  // Session groups extend the built-in ones and are merged when they overlap
+  const canonicaliser = createTagCanonicaliser([['sea', 'ocean'], ['ocean', 'coast']]);
+  assert.equal(canonicaliser.key('Coast'), canonicaliser.key('sea'));
+  assert.ok(nearlyEqual(weightedJaccard([{ value: 'sea', weight: 1 }], [{ value: 'ocean', weight: 1 }]), 0));
+  assert.ok(nearlyEqual(weightedJaccard([{ value: 'sea', weight: 1 }], [{ value: 'ocean', weight: 1 }], canonicaliser), 1));
+  // Explanations use the same matching and report the group's first entry
+  const res = computeSimilarity(
+    { tags: { GIVEN: [], CHOSEN: [], CORE: [{ value: 'Ocean', weight: 2 }] }, texts: { GIVEN: [], CHOSEN: [], CORE: [] } },
+    { tags: { GIVEN: [], CHOSEN: [], CORE: [{ value: 'coast', weight: 1 }] }, texts: { GIVEN: [], CHOSEN: [], CORE: [] } },
+    { ...DEFAULT_SIMILARITY_CONFIG, tagSynonyms: [['sea', 'ocean', 'coast']] }
+  );
+  assert.deepEqual(res.explanations.CORE.overlapTags, ['sea']);
+  assert.deepEqual(res.explanations.CORE.uniqueToA, []);
+}
+
+function testTfidfStrategy() {
+  const identity = (core: string): Identity => ({
+    tags: { GIVEN: [], CHOSEN: [], CORE: [] },
+    texts: { GIVEN: [], CHOSEN: [], CORE: [core] },
+  });
+  const people = [
+    identity('I love jazz and the city'),
+    identity('I love jazz and quiet mornings'),
+    identity('I love the city at night'),
+    identity('I love gardens'),
+  ];
+  const corpus = buildSimilarityCorpus(people);
+  assert.equal(corpus.documentCount, 4);
+  const tfidf = createTfidfStrategy(corpus);
+  const tokens = (text: string) => tokenize(text);
+  // Identical texts score 1, disjoint texts 0, and the result is symmetric
+  assert.ok(nearlyEqual(tfidf.similarity(tokens('jazz city'), tokens('jazz city')), 1));
+  assert.ok(nearlyEqual(tfidf.similarity(tokens('jazz'), tokens('gardens')), 0));
+  const ab = tfidf.similarity(tokens('I love jazz'), tokens('I love jazz and gardens'));
+  assert.ok(nearlyEqual(ab, tfidf.similarity(tokens('I love jazz and gardens'), tokens('I love jazz'))));
+  // Sharing a rare term ("jazz", 2 docs) beats sharing a ubiquitous one ("love", 4 docs)
+  assert.ok(tfidf.similarity(tokens('jazz'), tokens('jazz love')) > tfidf.similarity(tokens('love'), tokens('jazz love')));
+  // Selecting tfidf without a corpus falls back to Jaccard
+  const tfidfConfig = { ...DEFAULT_SIMILARITY_CONFIG, textStrategy: 'tfidf' as const };
+  assert.ok(
+    nearlyEqual(computeSimilarity(people[0], people[1], tfidfConfig).scoreOverall, computeSimilarity(people[0], people[1]).scoreOverall)
+  );
+  assert.ok(
+    !nearlyEqual(
+      computeSimilarity(people[0], people[1], tfidfConfig, corpus).scoreOverall,
+      computeSimilarity(people[0], people[1]).scoreOverall
+    )
+  );
+}
+
+function testTagRarity() {
+  const identity = (...tags: string[]): Identity => ({
+    tags: { GIVEN: tags.map((value) => ({ value, weight: 2 })), CHOSEN: [], CORE: [] },
+    texts: { GIVEN: [], CHOSEN: [], CORE: [] },
+  });
+  const people = [
+    identity('student', 'beekeeper'),
+    identity('student', 'beekeeper'),
+    identity('Students', 'chess'),
+    identity('student', 'chess'),
+    identity('student'),
+  ];
+  const config = { ...DEFAULT_SIMILARITY_CONFIG, tagRarity: true, tagBlend: 1 };
+  const corpus = buildSimilarityCorpus(people, config);
+  assert.equal(corpus.tagDocumentCount, 5);
+  assert.equal(corpus.tagFrequency.get('student'), 5, 'Tags are counted by canonical key');
+  const rarity = tagRarityFor(config, corpus)!;
+  assert.ok(rarity('beekeeper') > rarity('student'));
+  assert.ok(nearlyEqual(rarity('student'), 1), 'A tag everyone uses keeps its plain weight');
+  assert.equal(tagRarityFor(DEFAULT_SIMILARITY_CONFIG, corpus), undefined, 'Off by default');
+  // Without rarity both pairs share half their tags; with it the rare overlap wins
+  const a = identity('student', 'beekeeper');
+  const b = identity('student', 'chess');
+  const c = identity('beekeeper', 'chess');
+  assert.ok(nearlyEqual(weightedJaccard(a.tags.GIVEN, b.tags.GIVEN), weightedJaccard(a.tags.GIVEN, c.tags.GIVEN)));
+  const common = computeSimilarity(a, b, config, corpus);
+  const rare = computeSimilarity(a, c, config, corpus);
+  assert.ok(rare.scoreOverall > common.scoreOverall);
+  assert.ok(nearlyEqual(computeSimilarity(a, a, config, corpus).scores.GIVEN, 1), 'Identical tags still score 1');
+  // Top weights put distinctive tags first
+  assert.equal(computeSimilarity(a, b, config, corpus).explanations.GIVEN.topWeights[0], 'beekeeper');
+  assert.equal(computeSimilarity(a, b).explanations.GIVEN.topWeights[0], 'student');
+}
+
+function testTagTaxonomy() {
+  const tagTaxonomy = [
+    { tag: 'Music', children: [{ tag: 'Jazz' }, { tag: 'Rock', children: [{ tag: 'Punk' }] }] },
+    { tag: 'Africa', children: [{ tag: 'Nigeria', children: [{ tag: 'Lagos' }, { tag: 'Abuja' }] }, { tag: 'Kenya' }] },
+  ];
+  const taxonomy = createTagTaxonomy(tagTaxonomy);
+  assert.deepEqual(taxonomy.path('lago'), ['lago', 'nigeria', 'africa'], 'Paths use canonical keys');
+  assert.equal(taxonomy.label('africa'), 'Africa');
+  const tags = (...values: string[]) => values.map((value) => ({ value, weight: 2 }));
+  const score = (a: string[], b: string[]) => weightedJaccard(tags(...a), tags(...b), undefined, undefined, taxonomy);
+  // Siblings and parent/child earn half, cousins a quarter, unrelated tags nothing
+  assert.ok(nearlyEqual(score(['jazz'], ['rock']), 0.25));
+  assert.ok(nearlyEqual(score(['Lagos'], ['Nigeria']), 0.25));
+  assert.ok(nearlyEqual(score(['Lagos'], ['Kenya']), 0.125));
+  assert.ok(nearlyEqual(score(['jazz'], ['Lagos']), 0));
+  assert.ok(nearlyEqual(score(['jazz'], ['jazz']), 1), 'Exact matches are unchanged');
+  // Each tag is paired at most once, the closest relation first
+  assert.ok(nearlyEqual(score(['punk', 'jazz'], ['rock']), 0.5 / 3));
+  assert.ok(nearlyEqual(weightedJaccard(tags('jazz'), tags('rock')), 0), 'No taxonomy, no partial credit');
+  // Configs carry the taxonomy through to scores and explanations
+  const { config, errors } = parseSimilarityConfig({ tagTaxonomy, tagBlend: 1 });
+  assert.deepEqual(errors, []);
+  const identity = (...values: string[]): Identity => ({
+    tags: { GIVEN: [], CHOSEN: [], CORE: tags(...values) },
+    texts: { GIVEN: [], CHOSEN: [], CORE: [] },
+  });
+  const exp = computeSimilarity(identity('jazz', 'Lagos'), identity('rock', 'Abuja'), config!).explanations.CORE;
+  assert.ok(nearlyEqual(exp.tagScore, 0.25), 'Two sibling pairs earn half credit each');
+  assert.deepEqual(exp.sharedAncestors, ['Music', 'Nigeria']);
+  assert.deepEqual(exp.uniqueToA, ['jazz', 'lagos']);
+  assert.deepEqual(computeSimilarity(identity('jazz'), identity('rock')).explanations.CORE.sharedAncestors, []);
+  // Malformed taxonomies are rejected
+  assert.equal(parseSimilarityConfig({ tagTaxonomy: [{ tag: 'Music', children: 'Jazz' }] }).config, null);
+  assert.deepEqual(parseSimilarityConfig({ tagTaxonomy: [{ name: 'Music' }] }).errors, [
+    'tagTaxonomy[0].tag must be a non-empty string',
+  ]);
+}
+
+function testTextExplanations() {
+  const a: Identity = {
+    tags: { GIVEN: [], CHOSEN: [{ value: 'runner', weight: 2 }], CORE: [] },
+    texts: { GIVEN: [], CHOSEN: ['Loves hiking in the mountains'], CORE: [] },
+  };
+  const b: Identity = {
+    tags: { GIVEN: [], CHOSEN: [], CORE: [] },
+    texts: { GIVEN: [], CHOSEN: ['Went hiking in mountains with friends'], CORE: [] },
+  };
+  const exp = computeSimilarity(a, b).explanations.CHOSEN;
+  assert.ok(nearlyEqual(exp.tagScore, 0), 'No shared tags');
+  assert.ok(exp.textScore > 0, 'Shared words give a text score');
+  assert.ok(nearlyEqual(exp.score, 0.7 * exp.tagScore + 0.3 * exp.textScore), 'Score blends the sub-scores');
+  // Terms are reported as written, not as stems
+  assert.deepEqual(exp.sharedTerms, ['hiking', 'mountains']);
+  assert.deepEqual(exp.sharedPhrases, ['hiking mountains']);
+  assert.deepEqual(exp.uniqueTermsA, ['loves']);
+  assert.deepEqual(exp.uniqueTermsB, ['went', 'friends']);
+}
+
+function testUnicodeTokenizer() {
+  // Accents, case and full-width forms fold together; non-Latin scripts survive
+  assert.deepEqual(tokenize('Café CAFE ｃａｆｅ', 'none'), ['cafe', 'cafe', 'cafe']);
+  assert.deepEqual(tokenize('Straße', 'none'), ['strasse']);
+  assert.deepEqual(tokenize('Привет, мир!', 'none'), ['привет', 'мир']);
+  assert.deepEqual(tokenize('Жёлтый', 'none'), ['жёлтый'], 'Diacritics are only folded on Latin letters');
+  // Scripts without spaces are segmented, emoji count as words
+  assert.deepEqual(tokenize('我喜欢音乐', 'none'), ['我', '喜欢', '音乐']);
+  assert.deepEqual(tokenize('We love 🎸 and 👍🏽', 'en'), ['we', 'love', '🎸', '👍']);
+  // Stopwords and stemming follow the language
+  assert.deepEqual(tokenize('Los niños de la ciudad', 'es'), ['nin', 'ciudad']);
+  assert.deepEqual(tokenize('Los niños de la ciudad', 'en'), ['los', 'nino', 'de', 'la', 'ciudad']);
+  assert.ok(nearlyEqual(textJaccard(tokenize('mis amigos músicos', 'es'), tokenize('una amiga musica', 'es')), 1));
+  assert.equal(normaliseTag('Música', 'es'), normaliseTag('musicas', 'es'));
+  // The session language reaches text and tag matching
+  const identity = (tag: string, text: string): Identity => ({
+    tags: { GIVEN: [], CHOSEN: [], CORE: [{ value: tag, weight: 1 }] },
+    texts: { GIVEN: [], CHOSEN: [], CORE: [text] },
+  });
+  const a = identity('Hermanas', 'Me encantan los libros');
+  const b = identity('hermano', 'Un libro de poesía');
+  const english = computeSimilarity(a, b);
+  const spanish = computeSimilarity(a, b, { ...DEFAULT_SIMILARITY_CONFIG, language: 'es' });
+  assert.ok(nearlyEqual(spanish.explanations.CORE.tagScore, 1));
+  assert.ok(spanish.explanations.CORE.textScore > english.explanations.CORE.textScore);
+  assert.deepEqual(spanish.explanations.CORE.sharedTerms, ['libros']);
+}
+
+function testPorter2Stemmer() {
+  // Sample from the Snowball English vocabulary and its published output
+  const corpus: [string, string][] = [
+    ['consign', 'consign'], ['consigned', 'consign'], ['consignment', 'consign'],
+    ['consistency', 'consist'], ['consistently', 'consist'], ['consolation', 'consol'],
+    ['consolatory', 'consolatori'], ['consolidated', 'consolid'], ['consolingly', 'consol'],
+    ['conspicuously', 'conspicu'], ['conspiracy', 'conspiraci'], ['conspirators', 'conspir'],
+    ['constable', 'constabl'], ['constancy', 'constanc'], ['knackeries', 'knackeri'],
+    ['knaves', 'knave'], ['knavish', 'knavish'], ['kneeling', 'kneel'], ['knees', 'knee'],
+    ['knightly', 'knight'], ['knitting', 'knit'], ['knives', 'knive'], ['knockers', 'knocker'],
+    ['generously', 'generous'], ['generation', 'generat'], ['happily', 'happili'],
+    ['abilities', 'abil'], ['communication', 'communic'], ['itemization', 'item'],
+    ['sensational', 'sensat'], ['traditional', 'tradit'], ['colonizer', 'colon'],
+    // Plural and -ed/-ing rules
+    ['caresses', 'caress'], ['cries', 'cri'], ['ties', 'tie'], ['gaps', 'gap'], ['gas', 'gas'],
+    ['this', 'this'], ['kiwis', 'kiwi'], ['agreed', 'agre'], ['plotted', 'plot'], ['sized', 'size'],
+    ['hiking', 'hike'], ['hikes', 'hike'], ['running', 'run'], ['runs', 'run'],
+    // Consonant y and the exception lists
+    ['played', 'play'], ['cry', 'cri'], ['by', 'by'], ['skies', 'sky'], ['dying', 'die'],
+    ['news', 'news'], ['inning', 'inning'], ['proceed', 'proceed'],
+    // Object prototype keys are ordinary words
+    ['constructor', 'constructor'], ['tostring', 'tostr'], ['hasownproperty', 'hasownproperti'],
+  ];
+  corpus.forEach(([word, stem]) => assert.equal(porter2Stem(word), stem, `porter2Stem(${word})`));
+  // English uses Porter2; the original stemmer stays available as en-simple
+  assert.deepEqual(tokenize('Hiking and hikes'), ['hike', 'hike']);
+  assert.deepEqual(tokenize('Hiking and hikes', 'en-simple'), ['hik', 'hike']);
+  assert.equal(normaliseTag('Constructor'), 'constructor');
+}
+
+function testClassicalMds() {
+  // Points on a 3x4 rectangle plus its centre; MDS should recover distances up to scale
+  const original = [
+    { x: 0, y: 0 },
+    { x: 4, y: 0 },
+    { x: 4, y: 3 },
+    { x: 0, y: 3 },
+    { x: 2, y: 1.5 },
+  ];
+  const dist = (p: { x: number; y: number }, q: { x: number; y: number }) => Math.hypot(p.x - q.x, p.y - q.y);
+  const distances = original.map((p) => original.map((q) => dist(p, q)));
+  const layout = classicalMds(distances);
+  assert.equal(layout.length, original.length);
+  const scale = dist(layout[0], layout[2]) / distances[0][2];
+  original.forEach((_, i) =>
+    original.forEach((__, j) => {
+      assert.ok(nearlyEqual(dist(layout[i], layout[j]), distances[i][j] * scale, 1e-4), 'MDS preserves distances');
+    })
+  );
+  layout.forEach((p) => assert.ok(Math.abs(p.x) <= 1 + 1e-9 && Math.abs(p.y) <= 1 + 1e-9, 'Layout fits in [-1, 1]'));
+  assert.deepEqual(classicalMds([[0]]), [{ x: 0, y: 0 }]);
+}
+
+function testGrouping() {
+  // Two tight clusters of three: {0,1,2} and {3,4,5}
+  const cluster = (i: number) => (i < 3 ? 0 : 1);
+  const distances = Array.from({ length: 6 }, (_, i) =>
+    Array.from({ length: 6 }, (__, j) => (i === j ? 0 : cluster(i) === cluster(j) ? 0.1 : 0.9))
+  );
+  const sorted = (groups: number[][]) => groups.map((g) => [...g].sort()).sort((x, y) => x[0] - y[0]);
+  assert.deepEqual(sorted(partitionIntoGroups(distances, 2, 'similar')), [[0, 1, 2], [3, 4, 5]]);
+  const diverse = partitionIntoGroups(distances, 3, 'diverse');
+  assert.equal(diverse.length, 3);
+  diverse.forEach((group) => {
+    assert.equal(group.length, 2, 'Groups are balanced');
+    assert.notEqual(cluster(group[0]), cluster(group[1]), 'Diverse groups mix clusters');
+  });
+  // Sizes differ by at most one and k is clamped to the number of people
+  assert.deepEqual(partitionIntoGroups(distances.slice(0, 5).map((r) => r.slice(0, 5)), 2, 'similar').map((g) => g.length).sort(), [2, 3]);
+  assert.equal(partitionIntoGroups(distances, 10, 'similar').length, 6);
+
+  // On arbitrary distances every participant lands in exactly one group
+  // and sizes stay balanced, for every group count and mode
+  let seed = 42;
+  const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+  for (let n = 1; n <= 13; n++) {
+    const d = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) d[i][j] = d[j][i] = random();
+    }
+    for (let k = 1; k <= 5; k++) {
+      for (const mode of ['similar', 'diverse'] as const) {
+        const groups = partitionIntoGroups(d, k, mode);
+        const label = `n=${n} k=${k} ${mode}`;
+        assert.equal(groups.length, Math.min(k, n), label);
+        assert.deepEqual(groups.flat().sort((a, b) => a - b), Array.from({ length: n }, (_, i) => i), label);
+        const sizes = groups.map((g) => g.length);
+        assert.ok(Math.max(...sizes) - Math.min(...sizes) <= 1, `Groups are balanced (${label})`);
+      }
+    }
+  }
+}
+
+function testPairing() {
+  // a and b are alike, as are c and d; the two halves differ
+  const half = (id: string) => (id === 'a' || id === 'b' ? 0 : 1);
+  const similarity = (x: string, y: string) => (half(x) === half(y) ? 0.9 : 0.1);
+  const sortGroups = (groups: string[][]) => groups.map((g) => [...g].sort().join('')).sort();
+  assert.deepEqual(sortGroups(pairRound(['a', 'b', 'c', 'd'], similarity, 'similar')), ['ab', 'cd']);
+  const first = pairRound(['a', 'b', 'c', 'd'], similarity, 'different');
+  first.forEach((g) => assert.notEqual(half(g[0]), half(g[1]), 'Different mode pairs across halves'));
+  // Three rounds over four people use all three distinct pairings
+  const rounds = [first];
+  for (let r = 0; r < 2; r++) {
+    rounds.push(pairRound(['a', 'b', 'c', 'd'], similarity, 'different', previousMeetings(rounds)));
+  }
+  assert.equal(previousMeetings(rounds).size, 6, 'No pair repeats while fresh pairings remain');
+  // Odd counts produce exactly one triad
+  const odd = pairRound(['a', 'b', 'c', 'd', 'e'], () => 0.5, 'similar');
+  assert.deepEqual(odd.map((g) => g.length).sort(), [2, 3]);
+  assert.deepEqual(pairRound(['a'], similarity, 'similar'), []);
+}
+
+function testParticipantToken() {
+  const claims = { participantId: 'p1', sessionId: 's1', userId: 'u1', iat: 1700000000 };
+  const token = signParticipantToken(claims, 'secret');
+  assert.deepEqual(verifyParticipantToken(token, 'secret'), claims);
+  assert.equal(verifyParticipantToken(token, 'other secret'), null, 'Wrong secret is rejected');
+  // Swapping in another participant's claims breaks the signature
+  const forged = Buffer.from(JSON.stringify({ ...claims, participantId: 'p2' })).toString('base64url');
+  assert.equal(verifyParticipantToken(`${forged}.${token.split('.')[1]}`, 'secret'), null);
+  assert.equal(verifyParticipantToken('not-a-token', 'secret'), null);
+
+  // Local sign-in tokens are signed the same way and are not
+  // interchangeable with participant tokens
+  const user = { userId: 'u1', email: null, iat: 1700000000 };
+  const local = signLocalUserToken(user, 'secret');
+  assert.deepEqual(verifyLocalUserToken(local, 'secret'), user);
+  assert.equal(verifyLocalUserToken(local, 'other secret'), null);
+  assert.equal(verifyLocalUserToken(token, 'secret'), null, 'Participant tokens are not access tokens');
+}
+
+function testSessionState() {
+  assert.ok(canTransition('draft', 'open'));
+  assert.ok(canTransition('revealed', 'locked'), 'Matches can be hidden again');
+  assert.ok(!canTransition('draft', 'revealed'), 'Matches cannot be revealed before the session opens');
+  assert.ok(!canTransition('ended', 'open'), 'Ended sessions stay ended');
+  const now = Date.parse('2024-01-01T12:00:00Z');
+  assert.equal(effectiveState({ state: 'revealed', expires_at: '2024-01-01T11:00:00Z' }, now), 'ended');
+  assert.equal(effectiveState({ state: 'locked', expires_at: '2024-01-02T00:00:00Z' }, now), 'locked');
+  assert.equal(effectiveState({ state: null }, now), 'open', 'Sessions from before the lifecycle are open');
+  assert.ok(matchesRevealed('revealed') && !matchesRevealed('locked'));
+}
+
+function testSessionCodes() {
+  for (let i = 0; i < 50; i++) {
+    const code = generateSessionCode(8, { checksum: true });
+    assert.equal(code.length, 8);
+    assert.ok(code.split('').every((ch) => SESSION_CODE_ALPHABET.includes(ch)), `Unexpected character in ${code}`);
+    assert.ok(hasValidChecksum(code), `Checksum fails for ${code}`);
+  }
+  // Any single mistyped character is caught
+  const code = 'K7PX2M' + checkCharacter('K7PX2M');
+  SESSION_CODE_ALPHABET.split('').forEach((ch) => {
+    if (ch === code[3]) return;
+    assert.ok(!hasValidChecksum(code.slice(0, 3) + ch + code.slice(4)), `Typo ${ch} not caught`);
+  });
+  assert.equal(normalizeSessionCode(' k7p-x2 m '), 'K7PX2M');
+  assert.equal(normalizeSessionCode('ＡＢ0I'), 'ABQL', 'Full-width forms and lookalikes are folded');
+}
+
+async function testRateLimit() {
+  let time = 0;
+  const store = createMemoryRateLimitStore(() => time);
+  const rule = { limit: 2, windowMs: 1000 };
+  const results = [];
+  for (let i = 0; i < 3; i++) results.push(await checkRateLimit('joinPerIp', '1.2.3.4', rule, store));
+  assert.deepEqual(results.map((r) => r.allowed), [true, true, false]);
+  assert.ok((await checkRateLimit('joinPerIp', '5.6.7.8', rule, store)).allowed, 'Keys are limited separately');
+  time = 1000;
+  assert.ok((await checkRateLimit('joinPerIp', '1.2.3.4', rule, store)).allowed, 'A new window starts after reset');
+  assert.deepEqual(parseRateLimitRule('10/60'), { limit: 10, windowMs: 60000 });
+  assert.equal(parseRateLimitRule('ten per minute'), null);
+  // Forwarding headers count only behind trusted proxies, from the right
+  const headers = new Headers({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4, 10.0.0.1', 'x-real-ip': '7.7.7.7' });
+  assert.equal(clientIp({ headers }, 0), null);
+  assert.equal(clientIp({ headers }, 1), '10.0.0.1');
+  assert.equal(clientIp({ headers }, 2), '1.2.3.4');
+  assert.equal(clientIp({ ip: '9.9.9.9', headers }, 2), '9.9.9.9', 'The platform address wins');
+  assert.equal(clientIp({ headers: new Headers({ 'x-real-ip': '7.7.7.7' }) }, 1), '7.7.7.7');
+  // Clients without a known address are not pooled into one bucket
+  const single = { limit: 1, windowMs: 1000 };
+  const first = await checkRateLimit('joinPerIp', clientIp({ headers: new Headers() }, 0), single, store);
+  const second = await checkRateLimit('joinPerIp', clientIp({ headers: new Headers() }, 0), single, store);
+  assert.ok(first.allowed && second.allowed, 'Unknown clients do not share a limit');
+}
+
+function testSessionAnalytics() {
+  const participants = ['a', 'b', 'c', 'd'].map((id) => ({ id, is_visible: id !== 'd' }));
+  const tag = (participant_id: string, value: string) => ({ participant_id, lens: 'GIVEN' as const, type: 'tag' as const, value });
+  const items = [
+    tag('a', 'Runner'),
+    tag('b', 'running'),
+    tag('c', 'runner'),
+    tag('a', 'Teacher'),
+    tag('b', 'teacher'),
+    tag('d', 'Sailor'),
+    { participant_id: 'c', lens: 'CORE' as const, type: 'text' as const, value: 'Curious about people' },
+  ];
+  const analytics = computeSessionAnalytics(participants, items, [0, 0.25, 0.95, 1], createTagCanonicaliser(), 3);
+  assert.deepEqual(analytics.participants, { total: 4, visible: 3, hidden: 1, withItems: 4 });
+  // Synonyms count together; tags shared by fewer than 3 people are only counted
+  assert.equal(analytics.lenses.GIVEN.topTags.length, 1);
+  assert.equal(analytics.lenses.GIVEN.topTags[0].participants, 3);
+  assert.equal(analytics.lenses.GIVEN.suppressedTags, 2);
+  assert.ok(!JSON.stringify(analytics).toLowerCase().includes('sailor'), 'Rare tags are never named');
+  assert.deepEqual(
+    { texts: analytics.lenses.CORE.texts, participants: analytics.lenses.CORE.participants },
+    { texts: 1, participants: 1 },
+  );
+  assert.deepEqual(analytics.scores.bins.map((b) => b.count), [1, 0, 1, 0, 0, 0, 0, 0, 0, 2]);
+}
+
+function testSessionExport() {
+  const participant = (id: string, display_name: string, is_visible: boolean, consent_given = true) => ({
+    id,
+    display_name,
+    is_visible,
+    consent_given,
+    created_at: `2024-01-01T00:00:0${id}Z`,
+  });
+  const participants = [
+    participant('1', 'Ana', true),
+    participant('2', 'Ben', false),
+    participant('3', '=Cat', true),
+    participant('4', 'Dev', true, false),
+  ];
+  const analytics = computeSessionAnalytics(participants, [], [], createTagCanonicaliser());
+  const data = buildSessionExport({
+    session: { title: 'Demo', code: 'ABCDEF', state: 'revealed' },
+    participants,
+    analytics,
+    pairScores: () => ({ overall: 0.5, GIVEN: 0.5, CHOSEN: null, CORE: null }),
+    rounds: [{ round_number: 1, mode: 'different', groups: [['1', '2'], ['3', '4']] }],
+    groups: null,
+  });
+  // Hidden participants are pseudonymised and those without consent left out
+  assert.deepEqual(data.similarity.labels, ['Ana', 'Participant 1', '=Cat']);
+  assert.ok(!JSON.stringify(data).includes('Ben') && !JSON.stringify(data).includes('Dev'));
+  assert.equal(data.similarity.pairs.length, 3);
+  assert.deepEqual(data.rounds[0].groups, [['Ana', 'Participant 1'], ['=Cat']]);
+  // Cells a spreadsheet would treat as formulas are escaped
+  assert.ok(exportTableCsv(data, 'similarity').includes("'=Cat"));
+
+  // Pseudonyms follow join order whatever order participants arrive in
+  assert.deepEqual(
+    Array.from(participantLabels([...participants].reverse())),
+    [['1', 'Ana'], ['2', 'Participant 1'], ['3', '=Cat']],
+  );
+  assert.deepEqual(data.participants, [
+    { label: 'Ana', visible: true },
+    { label: 'Participant 1', visible: false },
+    { label: '=Cat', visible: true },
+  ]);
+
+  // Affinity groups drop participants without consent, and groups left
+  // empty; only tags shared by enough consenting people are exported
+  const tag = (participant_id: string, value: string) => ({ participant_id, lens: 'GIVEN' as const, type: 'tag' as const, value });
+  const consenting = participants.filter((p) => p.consent_given);
+  const filtered = buildSessionExport({
+    session: { title: 'Demo', code: 'ABCDEF', state: 'revealed' },
+    participants,
+    analytics: computeSessionAnalytics(
+      consenting,
+      [tag('1', 'Runner'), tag('2', 'runner'), tag('3', 'Runner'), tag('1', 'Sailor')],
+      [],
+      createTagCanonicaliser(),
+    ),
+    pairScores: () => ({ overall: 0.5, GIVEN: 0.5, CHOSEN: null, CORE: null }),
+    rounds: [],
+    groups: { mode: 'similar', members: [['4'], ['1', '2', '3']] },
+  });
+  assert.deepEqual(filtered.groups, { mode: 'similar', members: [['Ana', 'Participant 1', '=Cat']] });
+  assert.deepEqual(filtered.tags.map((t) => [t.lens, t.participants]), [['GIVEN', 3]]);
+  assert.ok(!JSON.stringify(filtered).toLowerCase().includes('sailor'), 'Rare tags are never exported');
+  for (const table of EXPORT_TABLES) {
+    const csv = exportTableCsv(filtered, table) + exportTableCsv(data, table);
+    assert.ok(!csv.includes('Ben') && !csv.includes('Dev'), `No hidden or withdrawn names in ${table}`);
+  }
+}
+
+async function testMemoryRepository() {
+  const repo = createMemoryRepository();
+  const session = await repo.sessions.create({ code: 'ABC234', title: 'Test', facilitator_email: null, expires_at: null });
+  assert.ok(session);
+  assert.equal(session.state, 'open', 'Defaults match the schema');
+  assert.equal(await repo.sessions.create({ code: 'ABC234', title: 'Clash', facilitator_email: null, expires_at: null }), null);
+  const join = (display_name: string) =>
+    repo.participants.create({ session_id: session.id, display_name, is_visible: true, consent_given: true });
+  const [ana, ben, cal] = [await join('Ana'), await join('Ben'), await join('Cal')];
+  assert.equal(await join('ana'), null, 'Display names are unique ignoring case');
+  await repo.identityItems.insert([
+    { participant_id: ana!.id, lens: 'CORE', type: 'tag', value: 'curious', weight: 2 },
+    { participant_id: ben!.id, lens: 'CORE', type: 'tag', value: 'curious', weight: 2 },
+    { participant_id: cal!.id, lens: 'CORE', type: 'tag', value: 'calm', weight: 2 },
+  ]);
+
+  // Missing pairs are computed on read and stored
+  const pairs = await getPairResults(session.id, ana!.id, [ben!.id, cal!.id], repo);
+  assert.ok(pairs[ben!.id].scores.overall > pairs[cal!.id].scores.overall);
+  assert.equal((await repo.similarityCache.listForParticipant(session.id, ana!.id)).length, 2);
+  assert.equal(Object.keys(await getSessionPairs(session.id, [ana!.id, ben!.id, cal!.id], repo)).length, 3);
+
+  // Edits recompute only the editor's pairs
+  await repo.identityItems.insert([{ participant_id: cal!.id, lens: 'CORE', type: 'tag', value: 'curious', weight: 2 }]);
+  assert.equal(await recomputeParticipant(session.id, cal!.id, repo), 2);
+  const updated = await getPairResults(session.id, ana!.id, [cal!.id], repo);
+  assert.ok(updated[cal!.id].scores.overall > pairs[cal!.id].scores.overall);
+
+  // Deleting a participant removes their items and cached pairs
+  assert.ok(await repo.participants.delete(cal!.id));
+  assert.equal((await repo.identityItems.list([cal!.id])).length, 0);
+  assert.equal((await repo.similarityCache.listAmong(session.id, [ana!.id, ben!.id, cal!.id])).length, 1);
+
+  // A round number can only be taken once per session
+  const round = { session_id: session.id, round_number: 1, mode: 'different' as const, groups: [[ana!.id, ben!.id]] };
+  assert.ok(await repo.pairingRounds.create(round));
+  assert.equal(await repo.pairingRounds.create(round), null, 'Concurrent starts of the same round clash');
+  await repo.sessions.update(session.id, { expires_at: new Date(0).toISOString() });
+  assert.equal(await repo.sessions.deleteExpired(new Date()), 1);
+  assert.equal(await repo.participants.count(session.id), 0);
+}
+
+async function runTests() {
   testWeightedJaccard();
   testTextJaccard();
   testSymmetry();
   testBounds();
+  testRankMatches();
+  testPlanIdentityBatch();
+  testSimilarityConfig();
+  testTagCanonicalisation();
+  testTfidfStrategy();
+  testTagRarity();
+  testTagTaxonomy();
+  testTextExplanations();
+  testUnicodeTokenizer();
+  testPorter2Stemmer();
+  testClassicalMds();
+  testGrouping();
+  testPairing();
+  testParticipantToken();
+  testSessionState();
+  testSessionCodes();
+  testSessionAnalytics();
+  testSessionExport();
+  await testRateLimit();
+  await testMemoryRepository();
   console.log('All similarity tests passed');
 }
 
-runTests();
\ No newline at end of file
+runTests().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
\ No newline at end of file
@@ -3,7 +3,10 @@
 --
 -- This script defines the tables, enum types, and row‑level security
 -- policies required to support the core data model. Run this in
--- your Supabase project SQL editor before using the application.
+-- your Supabase project SQL editor before using the application. It
+-- can be re-run to upgrade an existing project: objects are only
+-- created when missing and each policy is dropped before it is
+-- recreated.
 
 -- Enable the UUID extension for generating primary keys
 create extension if not exists "uuid-ossp";
@@ -15,9 +18,22 @@ create table if not exists public.sessions (
   title text not null,
   facilitator_email text,
   expires_at timestamptz,
+  similarity_config jsonb,
+  max_participants integer check (max_participants > 0),
+  state text not null default 'open' check (state in ('draft','open','locked','revealed','ended')),
   created_at timestamptz not null default now()
 );
 
+-- Added after the initial release; keeps existing projects in sync.
+-- A null config means the default similarity model is used.
+alter table public.sessions add column if not exists similarity_config jsonb;
+-- Optional cap on participants, enforced by /api/join. Null means no cap.
+alter table public.sessions add column if not exists max_participants integer check (max_participants > 0);
+-- Lifecycle state (see lib/sessionState.ts). Existing sessions become
+-- open; sessions created from /admin start as drafts.
+alter table public.sessions add column if not exists state text not null default 'open'
+  check (state in ('draft','open','locked','revealed','ended'));
+
 -- Participants table
 create table if not exists public.participant (
   id uuid primary key default uuid_generate_v4(),
@@ -25,13 +41,27 @@ create table if not exists public.participant (
   display_name text not null,
   is_visible boolean not null default false,
   consent_given boolean not null default false,
-  user_id uuid,
+  user_id uuid references auth.users(id) on delete cascade,
   created_at timestamptz not null default now()
 );
 
+-- Display names are unique within a session, ignoring case. /api/join
+-- checks first for a friendly error; the index catches concurrent joins.
+create unique index if not exists participant_session_name_idx
+  on public.participant (session_id, lower(display_name));
+
 -- Enum types for lens and item type
-create type if not exists lens_type as enum ('GIVEN','CHOSEN','CORE');
-create type if not exists item_type as enum ('tag','text');
+do $$
+begin
+  create type lens_type as enum ('GIVEN','CHOSEN','CORE');
+exception when duplicate_object then null;
+end $$;
+
+do $$
+begin
+  create type item_type as enum ('tag','text');
+exception when duplicate_object then null;
+end $$;
 
 -- Identity items table
 create table if not exists public.identity_item (
@@ -60,89 +90,257 @@ create table if not exists public.similarity_cache (
   unique(session_id, a_id, b_id)
 );
 
+-- Cached pairs are stored once with a_id < b_id and looked up by
+-- either participant, so index both sides.
+create index if not exists similarity_cache_a_idx on public.similarity_cache (session_id, a_id);
+create index if not exists similarity_cache_b_idx on public.similarity_cache (session_id, b_id);
+
+-- Conversation rounds. Each round stores its groups (pairs, plus one
+-- triad for odd counts) as a JSON array of participant id arrays.
+create table if not exists public.pairing_round (
+  id uuid primary key default uuid_generate_v4(),
+  session_id uuid references public.sessions(id) on delete cascade,
+  round_number integer not null,
+  mode text not null check (mode in ('different','similar')),
+  groups jsonb not null,
+  created_at timestamptz not null default now(),
+  unique(session_id, round_number)
+);
+
+-- Realtime: /map and /admin subscribe to participant and identity
+-- changes.
+
+do $$
+begin
+  alter publication supabase_realtime add table public.participant, public.identity_item;
+exception when duplicate_object then null;
+end $$;
+
+-- /map also listens for its session's state, to show matches as soon
+-- as they are revealed
+do $$
+begin
+  alter publication supabase_realtime add table public.sessions;
+exception when duplicate_object then null;
+end $$;
+
+-- ...and for new conversation rounds, to name the partner as soon as
+-- the facilitator starts a round
+do $$
+begin
+  alter publication supabase_realtime add table public.pairing_round;
+exception when duplicate_object then null;
+end $$;
+
 -- Enable Row Level Security on all tables
 alter table public.sessions enable row level security;
 alter table public.participant enable row level security;
 alter table public.identity_item enable row level security;
 alter table public.similarity_cache enable row level security;
+alter table public.pairing_round enable row level security;
 
--- Session policies: allow authenticated users to select and insert
-create policy public_read_sessions on public.sessions
-  for select
-  using (true);
+-- Earlier versions let anyone read every session, which exposed all
+-- session codes to holders of the public anon key. Joining by code now
+-- goes through /api/join with the service-role key.
+drop policy if exists public_read_sessions on public.sessions;
+
+-- Policies from earlier versions that allowed anyone to write. Dropped
+-- so re-running this script on an existing project removes them; the
+-- seed script and admin routes use the service-role key instead.
+drop policy if exists public_insert_sessions on public.sessions;
+drop policy if exists participants_public_insert on public.participant;
+drop policy if exists identity_items_public_insert on public.identity_item;
+drop policy if exists similarity_cache_insert_any on public.similarity_cache;
+drop policy if exists similarity_cache_update_any on public.similarity_cache;
+drop policy if exists similarity_cache_delete_any on public.similarity_cache;
+drop policy if exists pairing_round_insert_any on public.pairing_round;
+
+-- A facilitator is the signed-in user whose email matches a session's
+-- facilitator_email.
+create or replace function public.is_session_facilitator(target_session uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.sessions
+    where id = target_session
+      and lower(facilitator_email) = lower(auth.jwt() ->> 'email')
+  )
+$$;
 
-create policy public_insert_sessions on public.sessions
+-- Whether a session is in one of `states` and has not expired. Used
+-- below so direct table access follows the same lifecycle rules as
+-- the API routes.
+create or replace function public.session_in_state(target_session uuid, states text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.sessions
+    where id = target_session
+      and state = any(states)
+      and (expires_at is null or expires_at > now())
+  )
+$$;
+
+-- Facilitators create sessions under their own email and are the only
+-- ones who can change or delete them.
+drop policy if exists sessions_insert_facilitator on public.sessions;
+create policy sessions_insert_facilitator on public.sessions
   for insert
-  with check (true);
+  with check (lower(facilitator_email) = lower(auth.jwt() ->> 'email'));
+
+drop policy if exists sessions_update_facilitator on public.sessions;
+create policy sessions_update_facilitator on public.sessions
+  for update
+  using (public.is_session_facilitator(id))
+  with check (public.is_session_facilitator(id));
+
+drop policy if exists sessions_delete_facilitator on public.sessions;
+create policy sessions_delete_facilitator on public.sessions
+  for delete
+  using (public.is_session_facilitator(id));
+
+-- Sessions the signed-in user has joined. Security definer so the
+-- participant policies below can use it without querying participant
+-- under its own policies, which Postgres rejects as infinite recursion.
+create or replace function public.my_session_ids()
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select session_id from public.participant where user_id = auth.uid()
+$$;
+
+-- Session policies: a session can be read by its facilitator and by
+-- the people who have joined it
+drop policy if exists sessions_select_member_or_facilitator on public.sessions;
+create policy sessions_select_member_or_facilitator on public.sessions
+  for select
+  using (
+    id in (select public.my_session_ids()) OR
+    lower(facilitator_email) = lower(auth.jwt() ->> 'email')
+  );
 
 -- Participant policies
 -- Allow users to read their own participant record or any
 -- visible participants in the same session
+drop policy if exists participants_can_select_self_or_visible on public.participant;
 create policy participants_can_select_self_or_visible on public.participant
   for select
   using (
     (user_id = auth.uid()) OR
-    (is_visible AND session_id in (
-      select session_id from public.participant p2 where p2.user_id = auth.uid()
-    ))
+    (is_visible AND session_id in (select public.my_session_ids()))
   );
 
--- Users can insert their own participant record
-create policy participants_can_insert_self on public.participant
-  for insert
-  with check (user_id = auth.uid());
+-- Participants are created only by /api/join, which checks the
+-- session's expiry, cap and name rules with the service-role key
+drop policy if exists participants_can_insert_self on public.participant;
+
+-- Users can change their own visibility (via /api/participant) and
+-- nothing else: session, consent and name are set by /api/join, which
+-- enforces the session's state, cap and name rules. The column grant
+-- limits what the policy's rows may have changed.
+revoke update on public.participant from anon, authenticated;
+grant update (is_visible) on public.participant to authenticated;
 
--- Users can update their own participant record
+drop policy if exists participants_can_update_self on public.participant;
 create policy participants_can_update_self on public.participant
   for update
   using (user_id = auth.uid())
   with check (user_id = auth.uid());
 
--- Allow inserting participants without an authenticated user. This
--- policy exists primarily for seeding or facilitator-created
--- participants. Real user inserts should be restricted by the
--- `participants_can_insert_self` policy.
-create policy participants_public_insert on public.participant
-  for insert
-  with check (true);
+-- Users can delete their own participant record ("Delete my data");
+-- identity items and cached pairs cascade
+drop policy if exists participants_can_delete_self on public.participant;
+create policy participants_can_delete_self on public.participant
+  for delete
+  using (user_id = auth.uid());
+
+-- Facilitators can see everyone in their sessions, visible or not,
+-- e.g. for live participant counts on the admin page
+drop policy if exists participants_select_facilitator on public.participant;
+create policy participants_select_facilitator on public.participant
+  for select
+  using (public.is_session_facilitator(session_id));
 
 -- Identity item policies
+-- Participants can read their own items at any time, and those of
+-- visible participants in their session once matches are revealed,
+-- like the similarity cache below
+drop policy if exists identity_items_select_self_or_visible on public.identity_item;
 create policy identity_items_select_self_or_visible on public.identity_item
   for select
   using (
     participant_id in (select id from public.participant where user_id = auth.uid()) OR
     participant_id in (
       select id from public.participant
-      where is_visible AND session_id in (
-        select session_id from public.participant where user_id = auth.uid()
-      )
+      where is_visible
+        AND session_id in (select public.my_session_ids())
+        AND public.session_in_state(session_id, array['revealed'])
     )
   );
 
+-- Identity items can only be changed while the session is open
+drop policy if exists identity_items_insert_self on public.identity_item;
+drop policy if exists identity_items_update_self on public.identity_item;
+drop policy if exists identity_items_delete_self on public.identity_item;
+
 create policy identity_items_insert_self on public.identity_item
   for insert
-  with check (participant_id in (select id from public.participant where user_id = auth.uid()));
+  with check (participant_id in (
+    select id from public.participant
+    where user_id = auth.uid() and public.session_in_state(session_id, array['open'])
+  ));
 
 create policy identity_items_update_self on public.identity_item
   for update
-  using (participant_id in (select id from public.participant where user_id = auth.uid()))
-  with check (participant_id in (select id from public.participant where user_id = auth.uid()));
+  using (participant_id in (
+    select id from public.participant
+    where user_id = auth.uid() and public.session_in_state(session_id, array['open'])
+  ))
+  with check (participant_id in (
+    select id from public.participant
+    where user_id = auth.uid() and public.session_in_state(session_id, array['open'])
+  ));
 
--- Allow inserting identity items without an authenticated user. Used
--- for seed scripts and facilitator actions.
-create policy identity_items_public_insert on public.identity_item
-  for insert
-  with check (true);
+create policy identity_items_delete_self on public.identity_item
+  for delete
+  using (participant_id in (
+    select id from public.participant
+    where user_id = auth.uid() and public.session_in_state(session_id, array['open'])
+  ));
 
 -- Similarity cache policies
+-- Scores are readable only once the facilitator reveals matches
+drop policy if exists similarity_cache_select_same_session on public.similarity_cache;
 create policy similarity_cache_select_same_session on public.similarity_cache
   for select
   using (
     session_id in (
       select session_id from public.participant where user_id = auth.uid()
-    )
+    ) AND public.session_in_state(session_id, array['revealed'])
   );
 
-create policy similarity_cache_insert_any on public.similarity_cache
-  for insert
-  with check (true);
\ No newline at end of file
+-- No write policies: the cache is written only by API routes using
+-- the service-role key, which bypasses row-level security.
+
+-- Pairing round policies: participants can read the rounds of their
+-- own session. Rounds are created by the admin route with the
+-- service-role key.
+drop policy if exists pairing_round_select_same_session on public.pairing_round;
+create policy pairing_round_select_same_session on public.pairing_round
+  for select
+  using (
+    session_id in (
+      select session_id from public.participant where user_id = auth.uid()
+    ) OR public.is_session_facilitator(session_id)
+  );